@@ -0,0 +1,148 @@
+import { randomBytes } from "node:crypto";
+import path from "node:path";
+import fs from "fs-extra";
+
+export type JournalOperation = "writeFile" | "deleteFile" | "deleteDirectory" | "rename" | "copy" | "patch";
+
+export type JournalItem =
+  /** The path held content before the operation; restoring copies the snapshot back. */
+  | { path: string; snapshot: string }
+  /** The path did not exist before the operation; restoring removes it. */
+  | { path: string; snapshot: null }
+  /** The operation moved movedFrom to path; restoring moves it back. */
+  | { path: string; movedFrom: string };
+
+export type JournalEntry = {
+  id: string;
+  operation: JournalOperation;
+  timestamp: number;
+  items: JournalItem[];
+  restoredAt?: number;
+};
+
+const ENTRY_FILE = "entry.json";
+
+// Orders entries recorded within the same millisecond.
+let sequence = 0;
+
+/**
+ * Snapshots content that a destructive filesystem operation is about to replace or remove, so the
+ * operation can be rolled back later. Each entry is a directory under the journal directory holding
+ * the snapshots and an entry.json describing them.
+ */
+export default class FileJournal {
+  constructor(
+    private readonly directory: string,
+    private readonly maxEntries: number,
+  ) {}
+
+  /**
+   * Record the current state of the given paths before an operation changes them.
+   * Pass the returned entry to discard if the operation then fails.
+   */
+  async record(operation: JournalOperation, paths: string[], moves: Array<{ from: string; to: string }> = []): Promise<JournalEntry> {
+    const id = [
+      Date.now().toString(36).padStart(9, "0"),
+      (sequence++ % 36 ** 4).toString(36).padStart(4, "0"),
+      randomBytes(3).toString("hex"),
+    ].join("-");
+    const entryDir = path.join(this.directory, id);
+    await fs.ensureDir(entryDir);
+
+    const items: JournalItem[] = [];
+    for (const [index, filePath] of paths.entries()) {
+      const absolutePath = path.resolve(filePath);
+      if (!(await lexists(absolutePath))) {
+        items.push({ path: absolutePath, snapshot: null });
+        continue;
+      }
+      const snapshot = String(index);
+      await fs.copy(absolutePath, path.join(entryDir, snapshot), { dereference: false, preserveTimestamps: true });
+      items.push({ path: absolutePath, snapshot });
+    }
+    for (const { from, to } of moves) {
+      items.push({ path: path.resolve(to), movedFrom: path.resolve(from) });
+    }
+
+    const entry: JournalEntry = { id, operation, timestamp: Date.now(), items };
+    await fs.writeJson(path.join(entryDir, ENTRY_FILE), entry, { spaces: 2 });
+    await this.prune();
+    return entry;
+  }
+
+  async discard(entry: JournalEntry): Promise<void> {
+    await fs.remove(path.join(this.directory, entry.id));
+  }
+
+  /** All entries, oldest first. */
+  async list(): Promise<JournalEntry[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.directory);
+    } catch (error) {
+      const { code } = error as { code?: string };
+      if (code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const id of ids.sort()) {
+      try {
+        entries.push((await fs.readJson(path.join(this.directory, id, ENTRY_FILE))) as JournalEntry);
+      } catch {
+        // Partially written or foreign directory; not an entry we can restore
+      }
+    }
+    return entries;
+  }
+
+  async get(id: string): Promise<JournalEntry> {
+    // Ids are generated by record(); anything with a separator is not one of ours.
+    if (id.includes("/") || id.includes("..")) throw new Error(`Journal entry ${id} does not exist`);
+    try {
+      return (await fs.readJson(path.join(this.directory, id, ENTRY_FILE))) as JournalEntry;
+    } catch {
+      throw new Error(`Journal entry ${id} does not exist`);
+    }
+  }
+
+  /** Put every path in the entry back the way it was before the operation. */
+  async restore(entry: JournalEntry): Promise<void> {
+    if (entry.restoredAt !== undefined) {
+      throw new Error(`Journal entry ${entry.id} was already restored`);
+    }
+
+    const entryDir = path.join(this.directory, entry.id);
+    for (const item of [...entry.items].reverse()) {
+      if ("movedFrom" in item) {
+        if (await lexists(item.movedFrom)) {
+          throw new Error(`Cannot restore ${item.movedFrom}: the path exists again`);
+        }
+        await fs.move(item.path, item.movedFrom);
+      } else if (item.snapshot === null) {
+        await fs.remove(item.path);
+      } else {
+        await fs.remove(item.path);
+        await fs.copy(path.join(entryDir, item.snapshot), item.path, { dereference: false, preserveTimestamps: true });
+      }
+    }
+
+    await fs.writeJson(path.join(entryDir, ENTRY_FILE), { ...entry, restoredAt: Date.now() } satisfies JournalEntry, { spaces: 2 });
+  }
+
+  private async prune(): Promise<void> {
+    const ids = (await fs.readdir(this.directory)).sort();
+    for (const id of ids.slice(0, Math.max(0, ids.length - this.maxEntries))) {
+      await fs.remove(path.join(this.directory, id));
+    }
+  }
+}
+
+async function lexists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,192 @@
+import path from "node:path";
+import fs from "fs-extra";
+
+type IgnoreRule = {
+  /** Directory the rule's ignore file lives in; patterns match paths relative to it. */
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+};
+
+/** Per-directory ignore files, lowest precedence first. */
+const IGNORE_FILES = [".gitignore", ".ignore"];
+
+/**
+ * Translate a gitignore glob into a regular expression over slash-separated relative paths.
+ */
+function globToRegExpSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atStart = i === 0 || glob[i - 1] === "/";
+        const atEnd = i + 2 === glob.length || glob[i + 2] === "/";
+        if (atStart && atEnd) {
+          // "**/" matches zero or more directories; a trailing "**" matches everything inside.
+          if (i + 2 === glob.length) {
+            source += ".*";
+          } else {
+            source += "(?:.*/)?";
+            i++;
+          }
+          i++;
+          continue;
+        }
+        i++;
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      let cls = glob.slice(i + 1, close);
+      if (cls.startsWith("!")) cls = `^${cls.slice(1)}`;
+      source += `[${cls.replace(/\\/g, "\\\\")}]`;
+      i = close;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[++i]!.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped with a backslash.
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    else if (line.startsWith("\\!") || line.startsWith("\\#")) line = line.slice(1);
+
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory.
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+
+    const source = globToRegExpSource(line);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Evaluates gitignore semantics for paths under a root: `.gitignore` and `.ignore` files in every
+ * directory (deeper files and `.ignore` taking precedence), `.git/info/exclude`, negations, and the
+ * rule that nothing inside an ignored directory can be re-included. `.git` itself is always ignored.
+ * Ignore files are read on first use and cached until clearCache is called.
+ */
+export default class GitIgnoreFilter {
+  /** Promises, so concurrent lookups in the same directory read its ignore files once. */
+  private readonly rulesByDirectory = new Map<string, Promise<IgnoreRule[]>>();
+  private readonly ignoredDirectories = new Map<string, Promise<boolean>>();
+
+  private constructor(private readonly root: string) {}
+
+  /** Build a filter for the repository containing dir, or for dir itself outside a repository. */
+  static async forDirectory(dir: string): Promise<GitIgnoreFilter> {
+    const start = path.resolve(dir);
+    for (let current = start; ; current = path.dirname(current)) {
+      if (await fs.pathExists(path.join(current, ".git"))) return new GitIgnoreFilter(current);
+      if (path.dirname(current) === current) return new GitIgnoreFilter(start);
+    }
+  }
+
+  static isIgnoreFile(filePath: string): boolean {
+    return IGNORE_FILES.includes(path.basename(filePath)) || filePath.endsWith(path.join(".git", "info", "exclude"));
+  }
+
+  clearCache(): void {
+    this.rulesByDirectory.clear();
+    this.ignoredDirectories.clear();
+  }
+
+  /**
+   * Whether a path is ignored. When isDirectory is not given, a trailing slash marks a directory;
+   * otherwise the filesystem is consulted.
+   */
+  async isIgnored(filePath: string, isDirectory?: boolean): Promise<boolean> {
+    const absolutePath = path.resolve(filePath);
+    const relative = path.relative(this.root, absolutePath);
+    if (!relative || relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) return false;
+
+    if (await this.isDirectoryIgnored(path.dirname(absolutePath))) return true;
+    return this.matches(absolutePath, isDirectory ?? (filePath.endsWith("/") || (await isDirectoryPath(absolutePath))));
+  }
+
+  private isDirectoryIgnored(dir: string): Promise<boolean> {
+    if (dir === this.root || !dir.startsWith(this.root)) return Promise.resolve(false);
+
+    let ignored = this.ignoredDirectories.get(dir);
+    if (!ignored) {
+      ignored = this.isDirectoryIgnored(path.dirname(dir)).then(parentIgnored => parentIgnored || this.matches(dir, true));
+      this.ignoredDirectories.set(dir, ignored);
+    }
+    return ignored;
+  }
+
+  private async matches(absolutePath: string, isDirectory: boolean): Promise<boolean> {
+    if (path.basename(absolutePath) === ".git") return true;
+
+    let ignored = false;
+    for (const rule of await this.rulesFor(path.dirname(absolutePath))) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (ignored === !rule.negated) continue;
+      const relative = path.relative(rule.base, absolutePath).split(path.sep).join("/");
+      if (rule.regex.test(relative)) ignored = !rule.negated;
+    }
+    return ignored;
+  }
+
+  /** Every rule that applies to entries of dir, lowest precedence first. */
+  private rulesFor(dir: string): Promise<IgnoreRule[]> {
+    let rules = this.rulesByDirectory.get(dir);
+    if (!rules) {
+      rules = this.collectRules(dir);
+      this.rulesByDirectory.set(dir, rules);
+    }
+    return rules;
+  }
+
+  private async collectRules(dir: string): Promise<IgnoreRule[]> {
+    const parent = path.dirname(dir);
+    const inherited =
+      dir === this.root || parent === dir ? await this.readRules(path.join(this.root, ".git", "info", "exclude"), this.root) : await this.rulesFor(parent);
+    const own = await Promise.all(IGNORE_FILES.map(name => this.readRules(path.join(dir, name), dir)));
+    return [...inherited, ...own.flat()];
+  }
+
+  private async readRules(ignoreFile: string, base: string): Promise<IgnoreRule[]> {
+    try {
+      return parseIgnoreFile(await fs.readFile(ignoreFile, "utf-8"), base);
+    } catch {
+      return [];
+    }
+  }
+}
+
+async function isDirectoryPath(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
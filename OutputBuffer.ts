@@ -0,0 +1,139 @@
+import fs from "node:fs";
+
+/** UTF-16 code units on disk, so a character position maps straight to a byte offset. */
+const SPILL_ENCODING = "utf16le";
+const BYTES_PER_CHARACTER = 2;
+
+export type OutputSpillOptions = {
+  path: string;
+  /** Characters kept in the spill file; it is reused as a ring, overwriting the oldest output. */
+  maxSpilled: number;
+};
+
+/**
+ * Output of a long-running session, addressed by absolute character positions that stay valid as
+ * old output is discarded. Only the newest maxRetained characters are kept in memory; older chunks
+ * are dropped from the front, or written to a bounded spill file when one is given so they can still
+ * be read. If the spill file cannot be written, spilling stops and older output is discarded instead.
+ */
+export default class OutputBuffer {
+  private readonly chunks: string[] = [];
+  /** Position of the first character of chunks[0]. */
+  private retainedStart = 0;
+  private retainedLength = 0;
+  private spillFd: number | undefined;
+  /** Set once spilling has been given up (write failure or dispose); output before retainedStart is gone. */
+  private spillClosed = false;
+
+  constructor(
+    private readonly maxRetained: number,
+    private readonly spill?: OutputSpillOptions | undefined,
+  ) {}
+
+  /** Position just past the newest character; the total length ever appended. */
+  get end(): number {
+    return this.retainedStart + this.retainedLength;
+  }
+
+  /** The oldest position that can still be read. */
+  get start(): number {
+    if (this.spill === undefined || this.spillClosed) return this.retainedStart;
+    return Math.max(0, this.retainedStart - this.spill.maxSpilled);
+  }
+
+  append(text: string): void {
+    if (!text) return;
+    this.chunks.push(text);
+    this.retainedLength += text.length;
+
+    while (this.retainedLength > this.maxRetained) {
+      const excess = this.retainedLength - this.maxRetained;
+      const oldest = this.chunks[0]!;
+      let evicted: string;
+      if (excess >= oldest.length) {
+        evicted = this.chunks.shift()!;
+      } else {
+        evicted = oldest.slice(0, excess);
+        this.chunks[0] = oldest.slice(excess);
+      }
+      this.writeSpill(evicted, this.retainedStart);
+      this.retainedStart += evicted.length;
+      this.retainedLength -= evicted.length;
+    }
+  }
+
+  /**
+   * Output from fromPosition on, at most maxRetained characters; continue from the returned end for
+   * the rest. When fromPosition has been discarded, the output starts at the oldest position still
+   * available and evictedLength says how many characters were lost.
+   */
+  read(fromPosition: number): { text: string; end: number; evictedLength: number } {
+    const from = Math.min(Math.max(fromPosition, this.start), this.end);
+    const to = Math.min(this.end, from + this.maxRetained);
+    const evictedLength = Math.max(0, this.start - fromPosition);
+
+    const retained = this.chunks.join("");
+    if (from >= this.retainedStart) {
+      return { text: retained.substring(from - this.retainedStart, to - this.retainedStart), end: to, evictedLength };
+    }
+    const spilled = this.readSpilled(from, Math.min(to, this.retainedStart));
+    return { text: spilled + retained.substring(0, Math.max(0, to - this.retainedStart)), end: to, evictedLength };
+  }
+
+  /** Close and delete the spill file. Output before the retained window is no longer readable afterwards. */
+  dispose(): void {
+    this.closeSpill();
+  }
+
+  private closeSpill(): void {
+    this.spillClosed = true;
+    if (this.spillFd === undefined) return;
+    try {
+      fs.closeSync(this.spillFd);
+      fs.rmSync(this.spill!.path, { force: true });
+    } catch {
+      // already closed or removed
+    }
+    this.spillFd = undefined;
+  }
+
+  /** Write text, which starts at position, into the ring file at position modulo maxSpilled. */
+  private writeSpill(text: string, position: number): void {
+    if (this.spill === undefined || this.spillClosed) return;
+    const { maxSpilled } = this.spill;
+    // Only the newest maxSpilled characters can survive in the ring anyway
+    if (text.length > maxSpilled) {
+      position += text.length - maxSpilled;
+      text = text.slice(-maxSpilled);
+    }
+    try {
+      this.spillFd ??= fs.openSync(this.spill.path, "w+", 0o600);
+      const offset = position % maxSpilled;
+      const firstPart = text.slice(0, maxSpilled - offset);
+      writeAll(this.spillFd, Buffer.from(firstPart, SPILL_ENCODING), offset * BYTES_PER_CHARACTER);
+      if (firstPart.length < text.length) writeAll(this.spillFd, Buffer.from(text.slice(firstPart.length), SPILL_ENCODING), 0);
+    } catch {
+      // Out of disk space or similar: keep the session running on the in-memory window alone
+      this.closeSpill();
+    }
+  }
+
+  private readSpilled(from: number, to: number): string {
+    if (this.spillFd === undefined || this.spill === undefined || to <= from) return "";
+    const { maxSpilled } = this.spill;
+    const buffer = Buffer.alloc((to - from) * BYTES_PER_CHARACTER);
+    const offset = from % maxSpilled;
+    const firstLength = Math.min(to - from, maxSpilled - offset);
+    fs.readSync(this.spillFd, buffer, 0, firstLength * BYTES_PER_CHARACTER, offset * BYTES_PER_CHARACTER);
+    if (firstLength < to - from) {
+      fs.readSync(this.spillFd, buffer, firstLength * BYTES_PER_CHARACTER, (to - from - firstLength) * BYTES_PER_CHARACTER, 0);
+    }
+    return buffer.toString(SPILL_ENCODING);
+  }
+}
+
+function writeAll(fd: number, buffer: Buffer, position: number): void {
+  for (let written = 0; written < buffer.length; ) {
+    written += fs.writeSync(fd, buffer, written, buffer.length - written, position + written);
+  }
+}
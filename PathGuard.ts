@@ -0,0 +1,163 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+
+export type PathAccess = "read" | "write";
+
+/**
+ * Thrown when a path resolves outside the roots a PosixFileSystemProvider is confined to,
+ * or when a write targets a read-only root.
+ */
+export class PathConfinementError extends Error {
+  override readonly name = "PathConfinementError";
+
+  constructor(
+    readonly path: string,
+    readonly resolvedPath: string,
+    readonly access: PathAccess,
+  ) {
+    super(
+      path === resolvedPath
+        ? `Path ${path} is not ${access === "write" ? "writable" : "readable"} by this filesystem provider`
+        : `Path ${path} (resolves to ${resolvedPath}) is not ${access === "write" ? "writable" : "readable"} by this filesystem provider`,
+    );
+  }
+}
+
+const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * Resolve a path the way the kernel will when it is opened: `..` segments are collapsed and
+ * every symlink along the way is followed, including dangling ones, which a write would
+ * otherwise create outside the tree. Missing trailing segments are appended to the deepest
+ * ancestor that exists.
+ */
+export async function resolveRealPath(filePath: string, { followFinalSymlink = true } = {}): Promise<string> {
+  let current = path.resolve(filePath);
+  const missing: string[] = [];
+
+  if (!followFinalSymlink) {
+    // Operations such as unlink act on the link itself, so only its directory needs resolving.
+    const parent = path.dirname(current);
+    if (parent !== current) {
+      return path.join(await resolveRealPath(parent), path.basename(current));
+    }
+  }
+
+  for (let hops = 0; ; ) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch (error) {
+      const { code } = error as { code?: string };
+      if (code !== "ENOENT" && code !== "ENOTDIR") throw error;
+    }
+
+    const linkTarget = await readLinkIfPresent(current);
+    if (linkTarget !== null) {
+      if (++hops > MAX_SYMLINK_HOPS) {
+        throw new Error(`Too many levels of symbolic links resolving ${filePath}`);
+      }
+      current = path.resolve(path.dirname(current), linkTarget);
+      continue;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) return path.join(current, ...missing);
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+}
+
+async function readLinkIfPresent(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readlink(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function isWithin(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === "" || (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Enforces the allowedRoots/readOnlyRoots confinement of a PosixFileSystemProvider.
+ * With no allowed roots configured every path is readable and everything outside the
+ * read-only roots is writable.
+ */
+export default class PathGuard {
+  private readonly allowedRoots: string[];
+  private readonly readOnlyRoots: string[];
+  private resolvedRoots: Promise<{ allowedRoots: string[]; readOnlyRoots: string[] }> | undefined;
+
+  constructor({ allowedRoots, readOnlyRoots }: { allowedRoots: string[]; readOnlyRoots: string[] }) {
+    this.allowedRoots = allowedRoots.map(root => path.resolve(root));
+    this.readOnlyRoots = readOnlyRoots.map(root => path.resolve(root));
+  }
+
+  get isConfined(): boolean {
+    return this.allowedRoots.length > 0;
+  }
+
+  /**
+   * Resolve the path and throw a PathConfinementError if the requested access is not permitted.
+   * With recursive, the write also covers everything below the path, so a read-only root inside it is refused too.
+   */
+  async assert(filePath: string, access: PathAccess, options: { followFinalSymlink?: boolean; recursive?: boolean } = {}): Promise<void> {
+    if (!this.isConfined && this.readOnlyRoots.length === 0) return;
+
+    const { recursive = false, ...resolveOptions } = options;
+    const resolvedPath = await resolveRealPath(filePath, resolveOptions);
+    if (!(await this.permits(resolvedPath, access, recursive))) {
+      throw new PathConfinementError(filePath, resolvedPath, access);
+    }
+  }
+
+  /** Like assert, but reports the result instead of throwing. */
+  async allows(filePath: string, access: PathAccess): Promise<boolean> {
+    if (!this.isConfined && this.readOnlyRoots.length === 0) return true;
+    return this.permits(await resolveRealPath(filePath), access);
+  }
+
+  /**
+   * Guard for directory removal: on top of write access, refuses paths fewer than minDepth segments
+   * below `/`, the allowed roots themselves, and anything containing a read-only root or the home or working directory.
+   */
+  async assertRemovable(dirPath: string, minDepth: number): Promise<void> {
+    await this.assert(dirPath, "write", { followFinalSymlink: false });
+
+    const resolvedPath = await resolveRealPath(dirPath, { followFinalSymlink: false });
+    const depth = resolvedPath.split(path.sep).filter(Boolean).length;
+    if (depth < minDepth) {
+      throw new Error(`Refusing to delete ${dirPath}: it is fewer than ${minDepth} levels below the filesystem root`);
+    }
+
+    const { allowedRoots, readOnlyRoots } = await this.getResolvedRoots();
+    const protectedPaths = [...allowedRoots, ...readOnlyRoots, await resolveRealPath(os.homedir()), await resolveRealPath(process.cwd())];
+    const protectedPath = protectedPaths.find(candidate => isWithin(resolvedPath, candidate));
+    if (protectedPath) {
+      throw new Error(`Refusing to delete ${dirPath}: it is or contains the protected directory ${protectedPath}`);
+    }
+  }
+
+  private getResolvedRoots(): Promise<{ allowedRoots: string[]; readOnlyRoots: string[] }> {
+    // Roots are resolved once, so a root that is itself a symlink (e.g. /tmp on macOS) compares correctly.
+    this.resolvedRoots ??= Promise.all([
+      Promise.all(this.allowedRoots.map(root => resolveRealPath(root))),
+      Promise.all(this.readOnlyRoots.map(root => resolveRealPath(root))),
+    ]).then(([allowedRoots, readOnlyRoots]) => ({ allowedRoots, readOnlyRoots }));
+    return this.resolvedRoots;
+  }
+
+  private async permits(resolvedPath: string, access: PathAccess, recursive = false): Promise<boolean> {
+    const { allowedRoots, readOnlyRoots } = await this.getResolvedRoots();
+
+    const inReadOnlyRoot = readOnlyRoots.some(root => isWithin(root, resolvedPath));
+    if (access === "write" && inReadOnlyRoot) return false;
+    if (access === "write" && recursive && readOnlyRoots.some(root => isWithin(resolvedPath, root))) return false;
+    if (!this.isConfined) return true;
+
+    return allowedRoots.some(root => isWithin(root, resolvedPath)) || (access === "read" && inReadOnlyRoot);
+  }
+}
@@ -1,12 +1,11 @@
 import { EventEmitter } from "node:events";
 import { type FSWatcher as NodeFSWatcher, watch as watchFileSystem } from "node:fs";
+import { statfs } from "node:fs/promises";
 import path from "node:path";
 import type {
   DirectoryTreeOptions,
   FileSystemProvider,
   GlobOptions,
-  GrepOptions,
-  GrepResult,
   StatLike,
   WatchOptions,
 } from "@tokenring-ai/filesystem/FileSystemProvider";
@@ -14,44 +13,505 @@ import { arrayableToArray } from "@tokenring-ai/utility/array/arrayable";
 import EnhancedMap from "@tokenring-ai/utility/map/enhancedMap";
 import { Glob } from "bun";
 import fs from "fs-extra";
-import type { PosixFileSystemProviderOptions } from "./schema.ts";
+import FileJournal, { type JournalEntry, type JournalOperation } from "./FileJournal.ts";
+import GitIgnoreFilter from "./GitIgnoreFilter.ts";
+import PathGuard from "./PathGuard.ts";
+import {
+  assertValidLineRange,
+  type ByteRange,
+  decodeText,
+  detectTextEncoding,
+  ENCODING_SNIFF_BYTES,
+  FileAccessError,
+  findLineRange,
+  type ReadTextOptions,
+  readBytes,
+  type TextReadResult,
+  toFileAccessError,
+} from "./fileRead.ts";
+import { assertWritePreconditions, hashContent, type PosixWriteFileOptions, WriteConflictError, writeFileAtomic } from "./atomicWrite.ts";
+import {
+  createLineMatcher,
+  type GrepFileScan,
+  isBinaryContent,
+  type LineMatcher,
+  type PosixGrepOptions,
+  type PosixGrepResult,
+  type PosixGrepResults,
+  type PosixGrepStreamOptions,
+  type PosixGrepSummary,
+} from "./grep.ts";
+import {
+  type ApplyPatchOptions,
+  applyEditBlocks,
+  applyHunks,
+  decodeTextLines,
+  type EditBlock,
+  encodeTextLines,
+  type FilePatchResult,
+  type HunkResult,
+  type PatchResult,
+  parseUnifiedDiff,
+  type TextLines,
+} from "./patch.ts";
+import { applyModeChange, formatPermissions } from "./permissions.ts";
+import { type PosixFileSystemProviderOptions, PosixFileSystemProviderOptionsSchema } from "./schema.ts";
+import { convertLineEndings, detectLineEnding, matchTextConventions } from "./textConventions.ts";
+
+export type PosixStatLike = StatLike &
+  (
+    | { exists: false }
+    | {
+        exists: true;
+        /** Permission bits, including setuid/setgid/sticky, e.g. 0o755. */
+        mode: number;
+        /** Permission bits as `ls -l` renders them, e.g. "rwxr-xr-x". */
+        permissions: string;
+        uid: number;
+        gid: number;
+        inode: number;
+        /** Number of hard links to the file. */
+        linkCount: number;
+        /** The link's target exactly as stored; present only for symbolic links. */
+        symlinkTarget?: string;
+        /** Whether the link's target is missing; present only for symbolic links. */
+        isDanglingSymlink?: boolean;
+      }
+  );
+
+export type PosixGlobOptions = GlobOptions & {
+  /** Directory relative patterns are matched from. Defaults to the process working directory. */
+  cwd?: string | undefined;
+  /** Patterns whose matches are dropped, relative to cwd unless absolute. */
+  exclude?: string[] | undefined;
+  /** Deepest match to return, counted in path segments below cwd (1 = direct children). */
+  maxDepth?: number | undefined;
+  /** "path" sorts lexically, "mtime" puts the most recently modified first. Unsorted by default. */
+  sort?: "path" | "mtime" | undefined;
+};
 
-type WatchEvent = "add" | "change";
-type PosixWatchOptions = {
+export type ListDirectoryOptions = {
+  ignoreFilter: (path: string) => boolean;
+  /** How many levels to descend; 1 lists only the directory's own entries. Unlimited by default. */
+  maxDepth?: number | undefined;
+  /** Descend into symlinked directories and describe link targets. Cycles are detected and not re-entered. */
+  followSymlinks?: boolean | undefined;
+  /** Order of entries within each directory. Defaults to "name". */
+  sort?: "name" | "size" | "mtime" | "none" | undefined;
+};
+
+export type DirectoryEntry = {
+  path: string;
+  name: string;
+  /** 1 for the listed directory's own entries, 2 for theirs, and so on. */
+  depth: number;
+  /** What the entry is, or what it points at when symlinks are followed. Unfollowed and dangling links are "symlink". */
+  type: "file" | "directory" | "symlink" | "other";
+  isSymbolicLink: boolean;
+  size: number;
+  modified: Date;
+  /** The link's target exactly as stored; present only for symbolic links. */
+  symlinkTarget?: string;
+};
+
+export type DiskUsageOptions = {
   ignoreFilter: (path: string) => boolean;
+  /** Levels of children to break the total down into: 1 (the default) for the directory's own entries, 0 for none. */
+  breakdownDepth?: number | undefined;
+  /** Do not descend into directories on other filesystems, like du -x. */
+  oneFilesystem?: boolean | undefined;
+};
+
+export type DiskUsage = {
+  path: string;
+  /** Apparent size in bytes of everything in the tree, directories included. */
+  size: number;
+  /** Bytes allocated on disk; less than size for sparse files. */
+  allocated: number;
+  /** Entries that are not directories, symlinks included. */
+  files: number;
+  /** Directories, counting this one. */
+  directories: number;
+  /** The breakdown by entry, most allocated first, down to breakdownDepth. */
+  children?: DiskUsage[];
+};
+
+/** Capacity of the filesystem holding a path, in bytes and inodes. */
+export type FilesystemCapacity = {
+  total: number;
+  used: number;
+  /** Bytes not in use, including blocks reserved for root. */
+  free: number;
+  /** Bytes an unprivileged process can still use. */
+  available: number;
+  blockSize: number;
+  totalInodes: number;
+  freeInodes: number;
+};
+
+const DEFAULT_GREP_CONCURRENCY = 8;
+
+/** A glob pattern in the form paths are matched in: "./src/*.ts" and "src//*.ts" both become "src/*.ts". */
+function normalizeGlobPattern(pattern: string): string {
+  return path.posix.normalize(pattern.replace(/^(?:\.\/)+/, ""));
+}
+
+/** The directory a glob pattern starts matching from: its leading segments without wildcards. */
+function globBaseDirectory(pattern: string, cwd: string): string {
+  const segments = pattern.split("/");
+  const firstWildcard = segments.findIndex(segment => /[*?[{]/.test(segment));
+  const base = firstWildcard === -1 ? path.dirname(pattern) : segments.slice(0, firstWildcard).join("/");
+  return path.resolve(cwd, base || (pattern.startsWith("/") ? "/" : "."));
+}
+
+/** How much of an existing file is inspected to infer its line ending and BOM. */
+const TEXT_CONVENTION_SNIFF_BYTES = 64 * 1024;
+
+const DEFAULT_WATCH_HASH_MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+const DEFAULT_WATCH_RENAME_WINDOW = 100;
+
+const DEFAULT_PATCH_FUZZ = 2;
+
+/** A file touched by a patch being applied: its content on disk, and what it will become (null to remove it). */
+type PlannedFileChange = { original: Buffer | null; content: Buffer | string | null };
+
+const EMPTY_TEXT: TextLines = { lines: [], finalNewline: true, lineEnding: "\n", bom: false };
+
+export type PosixWatchOptions = WatchOptions & {
+  /** Scan for changes every pollInterval instead of using native filesystem events. Detected automatically when omitted. */
+  usePolling?: boolean | undefined;
+  /**
+   * Instead of individual events, emit "changes" with every change coalesced per path once no new
+   * change has arrived for this many milliseconds.
+   */
+  batchWindow?: number | undefined;
+  /**
+   * Hash file contents when they settle, report the hash with add, change and rename events, and drop
+   * change events whose content is unchanged (e.g. a touch or a save without edits).
+   */
+  hashContents?: boolean | undefined;
+  /** Files larger than this many bytes are not hashed, and change on size or mtime alone. Defaults to 2 MiB. */
+  hashMaxFileSize?: number | undefined;
+  /** How long, in milliseconds, a removal is held so it can pair with an addition into a rename. Defaults to 100. */
+  renameWindow?: number | undefined;
+};
+
+export type WatchChangeType = "add" | "change" | "unlink" | "addDir" | "unlinkDir" | "rename" | "renameDir";
+
+/** One entry of a batched change-set; oldPath is set for renames, and hash for hashed files. */
+export type WatchChange = { type: WatchChangeType; path: string; oldPath?: string | undefined; hash?: string | undefined };
+
+/** How a watcher learns about changes: native fs.watch events, or periodically rescanning the tree. */
+export type WatchMode = "native" | "polling";
+
+type WatchEvent = "add" | "change";
+type WatcherOptions = {
+  ignoreFilter: (path: string) => Promise<boolean>;
+  /** Called with each path a change is seen for, before it is filtered, so rules from a changed ignore file are reloaded. */
+  invalidateIgnoreRules: (path: string) => void;
   pollInterval: number;
   stabilityThreshold: number;
+  renameWindow: number;
+  usePolling: boolean;
+  batchWindow: number | undefined;
+  hashContents: boolean;
+  hashMaxFileSize: number;
 };
 
+/** Errors from fs.watch meaning native events are unavailable, e.g. ENOSPC when inotify's max_user_watches is exhausted. */
+const NATIVE_WATCH_UNAVAILABLE = new Set(["ENOSPC", "EMFILE", "ENOSYS", "ENOTSUP", "EOPNOTSUPP", "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM"]);
+
+/**
+ * statfs f_type values of Linux network filesystems (NFS, SMB, CIFS, SMB2, 9P), where inotify only
+ * reports changes made by this machine.
+ */
+const NETWORK_FILESYSTEM_TYPES = new Set([0x6969, 0x517b, 0xff534d42, 0xfe534d42, 0x01021997]);
+
+async function isNetworkFilesystem(dir: string): Promise<boolean> {
+  if (process.platform !== "linux") return false;
+  try {
+    return NETWORK_FILESYSTEM_TYPES.has((await statfs(dir)).type);
+  } catch {
+    return false;
+  }
+}
+
+type ScannedEntry = { isDirectory: boolean; size: number; modified: number };
+
+/**
+ * Fold a file's next change into the one already batched for it: a file added and removed within the
+ * window vanishes, a file removed and recreated is a change, an add or unlink outlasts a change, and
+ * renames carry earlier changes over to the new name.
+ */
+function coalesceChange(previous: WatchChange | undefined, next: WatchChange): WatchChange | null {
+  if (!previous) return next;
+  if (previous.type === "add") {
+    if (next.type === "unlink") return null;
+    if (next.type === "change") return previous;
+  }
+  if (previous.type === "unlink" && next.type === "add") return { type: "change", path: next.path };
+  if (previous.type === "rename" && next.type === "change") return previous;
+  if (previous.type === "rename" && next.type === "unlink") return { type: "unlink", path: previous.oldPath ?? next.path };
+  if (next.type === "rename" && previous.path === next.oldPath) {
+    // The file was added or renamed earlier in the window, so only its latest name matters.
+    if (previous.type === "add") return { type: "add", path: next.path };
+    if (previous.type === "rename") return { ...next, oldPath: previous.oldPath };
+  }
+  return next;
+}
+
+/** Identifies a file across renames: device and inode. */
+function inodeKey(stats: fs.Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
+
+function isWithinDirectory(dir: string, filePath: string): boolean {
+  return filePath.startsWith(dir + path.sep);
+}
+
+/**
+ * Emits "add", "change" and "unlink" for files, "addDir" and "unlinkDir" for directories, and
+ * "rename"/"renameDir" (oldPath, newPath) when a disappearance and an appearance within the
+ * rename window share an inode. Removals are held for renameWindow so the two halves
+ * of a rename can be paired; an unmatched removal is then reported as unlink/unlinkDir, with the
+ * known contents of a removed directory reported first.
+ *
+ * Changes come from a recursive fs.watch unless polling is requested or native events are
+ * unavailable (inotify limits, unsupported filesystems), in which case the tree is rescanned every
+ * pollInterval. A switch to polling after the watcher started is announced with a "mode" event.
+ *
+ * "ready" is emitted once the initial scan has been reported. With batchWindow set, changes are
+ * collected and emitted together as a "changes" array instead.
+ */
 class PosixFileSystemWatcher extends EventEmitter {
-  private readonly watcher: NodeFSWatcher;
-  private readonly pendingEvents = new EnhancedMap<string, { event: WatchEvent; timeout: NodeJS.Timeout }>();
-  private readonly knownFiles = new Set<string>();
+  private watcher: NodeFSWatcher | undefined;
+  private currentMode: WatchMode = "native";
+  private pollTimer: NodeJS.Timeout | undefined;
+  /** The previous polling scan, for spotting modified files. */
+  private lastScan = new Map<string, ScannedEntry>();
+  private readonly batch = new Map<string, WatchChange>();
+  private batchTimer: NodeJS.Timeout | undefined;
+  private ready = false;
+  private readonly pendingEvents = new EnhancedMap<
+    string,
+    { event: WatchEvent; timeout?: NodeJS.Timeout | undefined; inode?: string | undefined; renamedFrom?: string | undefined }
+  >();
+  private readonly pendingUnlinks = new EnhancedMap<string, { inode: string; isDirectory: boolean; timeout: NodeJS.Timeout }>();
+  /** Announced files and directories, by path, with their inode keys. */
+  private readonly knownFiles = new Map<string, string>();
+  private readonly knownDirectories = new Map<string, string>();
+  /** SHA-256 of announced files' contents, when hashContents is on and the file is within hashMaxFileSize. */
+  private readonly knownHashes = new Map<string, string>();
+  /** Size and mtime of announced files when last reported, so the first poll after a fallback still spots changes. */
+  private readonly knownStates = new Map<string, ScannedEntry>();
+  /** Directories a polling scan could not read, so their error is emitted once rather than on every poll. */
+  private readonly unreadableDirectories = new Set<string>();
   private closed = false;
 
   constructor(
     private readonly dir: string,
-    private readonly options: PosixWatchOptions,
+    private readonly options: WatcherOptions,
   ) {
     super();
-    this.watcher = watchFileSystem(dir, { recursive: true }, (eventType, filename) => {
-      void this.handleFileSystemEvent(eventType, filename);
-    });
-    this.watcher.on("error", error => this.emit("error", error));
+    if (options.usePolling) {
+      this.currentMode = "polling";
+    } else {
+      try {
+        this.watcher = watchFileSystem(dir, { recursive: true }, (eventType, filename) => {
+          void this.handleFileSystemEvent(eventType, filename);
+        });
+        this.watcher.on("error", error => this.handleWatcherError(error));
+      } catch (error) {
+        if (!isNativeWatchUnavailable(error)) throw error;
+        this.currentMode = "polling";
+      }
+    }
 
     setTimeout(() => {
-      void this.emitInitialFiles(dir);
+      void this.emitInitialFiles(dir)
+        .then(() => this.announceReady())
+        .then(() => {
+          if (this.currentMode === "polling") this.schedulePoll();
+        });
     });
   }
 
+  get mode(): WatchMode {
+    return this.currentMode;
+  }
+
+  /** Whether the initial scan has completed and been reported. */
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /** Wait for the files found by the initial scan to settle, flush any batch holding them, and emit "ready". */
+  private async announceReady(): Promise<void> {
+    const initialPaths = [...this.pendingEvents.keys()];
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- this.closed can be mutated asynchronously by close(); TS narrowing doesn't account for this across await/loop iterations
+    while (!this.closed && initialPaths.some(filePath => this.pendingEvents.has(filePath))) {
+      await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- this.closed can be mutated asynchronously by close(); TS narrowing doesn't account for this across await/loop iterations
+    if (this.closed) return;
+
+    this.flushBatch();
+    this.ready = true;
+    this.emit("ready");
+  }
+
+  private report(change: WatchChange): void {
+    if (this.options.batchWindow === undefined) {
+      if (change.oldPath !== undefined) this.emit(change.type, change.oldPath, change.path, change.hash);
+      else this.emit(change.type, change.path, change.hash);
+      return;
+    }
+
+    const key = change.type === "addDir" || change.type === "unlinkDir" || change.type === "renameDir" ? `${change.path}${path.sep}` : change.path;
+    // A rename takes over whatever was batched for its old path.
+    const previous = this.batch.get(key) ?? (change.oldPath !== undefined ? this.batch.get(change.oldPath) : undefined);
+    if (change.oldPath !== undefined) this.batch.delete(change.oldPath);
+    const coalesced = coalesceChange(previous, change);
+    this.batch.delete(key);
+    if (coalesced) this.batch.set(key, coalesced);
+
+    clearTimeout(this.batchTimer);
+    this.batchTimer = setTimeout(() => this.flushBatch(), this.options.batchWindow);
+  }
+
+  private flushBatch(): void {
+    clearTimeout(this.batchTimer);
+    if (this.batch.size === 0) return;
+    const changes = [...this.batch.values()];
+    this.batch.clear();
+    this.emit("changes", changes);
+  }
+
   close(): void {
     this.closed = true;
-    this.watcher.close();
+    this.watcher?.close();
+    clearTimeout(this.pollTimer);
+    clearTimeout(this.batchTimer);
+    this.batch.clear();
     for (const { timeout } of this.pendingEvents.values()) {
       clearTimeout(timeout);
     }
+    for (const { timeout } of this.pendingUnlinks.values()) {
+      clearTimeout(timeout);
+    }
     this.pendingEvents.clear();
+    this.pendingUnlinks.clear();
     this.knownFiles.clear();
+    this.knownDirectories.clear();
+    this.knownHashes.clear();
+    this.knownStates.clear();
+    this.unreadableDirectories.clear();
+    this.lastScan.clear();
+  }
+
+  /** Where the native watcher's errors land: falls back to polling when native events become unavailable, else re-emits. */
+  handleWatcherError(error: unknown): void {
+    if (!isNativeWatchUnavailable(error) || this.currentMode === "polling") {
+      this.emit("error", error);
+      return;
+    }
+
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.currentMode = "polling";
+    this.emit("mode", this.currentMode, error);
+    this.schedulePoll();
+  }
+
+  private schedulePoll(): void {
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- this.closed can be mutated asynchronously by close(); TS narrowing doesn't account for this across await/loop iterations
+    if (this.closed) return;
+    this.pollTimer = setTimeout(() => {
+      this.poll()
+        .catch(error => this.emit("error", error))
+        .finally(() => this.schedulePoll());
+    }, this.options.pollInterval);
+  }
+
+  /**
+   * Rescan the tree and feed the differences through the same paths as native events. Removals are
+   * handled first and directories before files, so renames can pair with the pending removal.
+   */
+  private async poll(): Promise<void> {
+    const scan = new Map<string, ScannedEntry>();
+    const unreadable: string[] = [];
+    await this.scanTree(this.dir, scan, unreadable);
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- this.closed can be mutated asynchronously by close(); TS narrowing doesn't account for this across await/loop iterations
+    if (this.closed) return;
+
+    for (const knownPath of [...this.knownFiles.keys(), ...this.knownDirectories.keys()]) {
+      // What was known under a directory that cannot be read now is kept, not reported as removed.
+      if (!scan.has(knownPath) && !unreadable.some(dir => isWithinDirectory(dir, knownPath))) {
+        this.options.invalidateIgnoreRules(knownPath);
+        this.clearPendingEvent(knownPath);
+        this.scheduleUnlink(knownPath);
+      }
+    }
+
+    const scannedPaths = [...scan.keys()].sort();
+    for (const scannedPath of scannedPaths) {
+      const entry = scan.get(scannedPath)!;
+      if (entry.isDirectory && !this.knownDirectories.has(scannedPath)) {
+        const stats = await fs.stat(scannedPath).catch(() => null);
+        if (stats?.isDirectory()) this.registerDirectory(scannedPath, stats);
+      }
+    }
+
+    for (const scannedPath of scannedPaths) {
+      const entry = scan.get(scannedPath)!;
+      if (entry.isDirectory || this.pendingEvents.has(scannedPath)) continue;
+      if (!this.knownFiles.has(scannedPath)) {
+        this.options.invalidateIgnoreRules(scannedPath);
+        this.scheduleStableEvent("add", scannedPath, await fs.stat(scannedPath).catch(() => undefined));
+      } else {
+        // Right after a fallback there is no previous scan; compare with the state last reported instead.
+        const previous = this.lastScan.get(scannedPath) ?? this.knownStates.get(scannedPath);
+        if (previous && (previous.size !== entry.size || previous.modified !== entry.modified)) {
+          this.options.invalidateIgnoreRules(scannedPath);
+          this.scheduleStableEvent("change", scannedPath);
+        }
+      }
+    }
+
+    this.lastScan = scan;
+  }
+
+  /** Collect the tree below dir into scan; directories that cannot be read are skipped and added to unreadable. */
+  private async scanTree(dir: string, scan: Map<string, ScannedEntry>, unreadable: string[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      const { code } = error as { code?: string };
+      if (code === "ENOENT" || code === "ENOTDIR") return;
+      if (code !== "EACCES" && code !== "EPERM") throw error;
+      unreadable.push(dir);
+      if (!this.unreadableDirectories.has(dir)) {
+        this.unreadableDirectories.add(dir);
+        this.emit("error", error);
+      }
+      return;
+    }
+    this.unreadableDirectories.delete(dir);
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (await this.isIgnored(entryPath)) continue;
+
+      if (entry.isDirectory()) {
+        scan.set(entryPath, { isDirectory: true, size: 0, modified: 0 });
+        await this.scanTree(entryPath, scan, unreadable);
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(entryPath).catch(() => null);
+        if (stats) scan.set(entryPath, { isDirectory: false, size: stats.size, modified: stats.mtimeMs });
+      }
+    }
   }
 
   private async handleFileSystemEvent(eventType: string, filename: string | Buffer | null): Promise<void> {
@@ -59,11 +519,13 @@ class PosixFileSystemWatcher extends EventEmitter {
     if (this.closed || !filename) return;
 
     const filePath = this.resolveFilePath(filename);
-    if (this.isIgnored(filePath)) return;
+    this.options.invalidateIgnoreRules(filePath);
+    if (await this.isIgnored(filePath)) return;
 
     try {
       const stats = await fs.stat(filePath);
       if (stats.isDirectory()) {
+        this.registerDirectory(filePath, stats);
         // Recursive fs.watch on macOS often only reports the directory create when
         // a file is written immediately after mkdir. Scan (and briefly re-scan) so
         // nested files still surface as "add" events.
@@ -76,19 +538,123 @@ class PosixFileSystemWatcher extends EventEmitter {
       // Platforms such as macOS may report new files as "change". Treat first
       // sightings of a path as "add" so nested creates after watch start work.
       const event: WatchEvent = this.knownFiles.has(filePath) && eventType === "change" ? "change" : "add";
-      this.scheduleStableEvent(event, filePath);
+      this.scheduleStableEvent(event, filePath, stats);
     } catch (error) {
       const { code } = error as { code?: string };
       if (code === "ENOENT") {
         this.clearPendingEvent(filePath);
-        this.knownFiles.delete(filePath);
-        this.emit("unlink", filePath);
+        this.scheduleUnlink(filePath);
       } else {
         this.emit("error", error);
       }
     }
   }
 
+  /** Announce a directory the first time it is seen, as a rename if it replaces one that just vanished. */
+  private registerDirectory(dirPath: string, stats: fs.Stats): void {
+    if (dirPath === this.dir || this.knownDirectories.has(dirPath)) return;
+
+    const inode = inodeKey(stats);
+    // A directory has a single name, so a known directory with this inode has moved here even if its
+    // removal has not been seen yet.
+    const renamedFrom = this.takePendingUnlink(inode, true) ?? [...this.knownDirectories].find(([, knownInode]) => knownInode === inode)?.[0];
+    if (renamedFrom) {
+      this.moveKnownTree(renamedFrom, dirPath);
+      this.report({ type: "renameDir", path: dirPath, oldPath: renamedFrom });
+    } else {
+      this.knownDirectories.set(dirPath, inode);
+      this.report({ type: "addDir", path: dirPath });
+    }
+  }
+
+  /**
+   * Hold the removal of an announced path for the stability window, unless the file has already
+   * reappeared under a new name.
+   */
+  private scheduleUnlink(filePath: string): void {
+    const isDirectory = this.knownDirectories.has(filePath);
+    const inode = isDirectory ? this.knownDirectories.get(filePath) : this.knownFiles.get(filePath);
+    if (inode === undefined || this.pendingUnlinks.has(filePath)) return;
+
+    if (!isDirectory) {
+      for (const pending of this.pendingEvents.values()) {
+        if (pending.event === "add" && pending.inode === inode && !pending.renamedFrom) {
+          pending.renamedFrom = filePath;
+          return;
+        }
+      }
+    }
+
+    this.pendingUnlinks.set(filePath, {
+      inode,
+      isDirectory,
+      timeout: setTimeout(() => this.flushUnlink(filePath), this.options.renameWindow),
+    });
+  }
+
+  private flushUnlink(filePath: string): void {
+    const pending = this.pendingUnlinks.deleteAndReturnItem(filePath);
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- this.closed can be mutated asynchronously by close(); TS narrowing doesn't account for this across await/loop iterations
+    if (!pending || this.closed) return;
+
+    if (pending.isDirectory) {
+      // Report what the directory held before the directory itself, deepest first.
+      for (const knownFile of [...this.knownFiles.keys()].filter(knownPath => isWithinDirectory(filePath, knownPath))) {
+        this.clearPendingUnlink(knownFile);
+        this.knownFiles.delete(knownFile);
+        this.knownHashes.delete(knownFile);
+        this.knownStates.delete(knownFile);
+        this.report({ type: "unlink", path: knownFile });
+      }
+      const knownDirectories = [...this.knownDirectories.keys()].filter(knownPath => isWithinDirectory(filePath, knownPath));
+      for (const knownDirectory of knownDirectories.sort().reverse()) {
+        this.clearPendingUnlink(knownDirectory);
+        this.knownDirectories.delete(knownDirectory);
+        this.report({ type: "unlinkDir", path: knownDirectory });
+      }
+      this.knownDirectories.delete(filePath);
+      this.report({ type: "unlinkDir", path: filePath });
+    } else {
+      this.knownFiles.delete(filePath);
+      this.knownHashes.delete(filePath);
+      this.knownStates.delete(filePath);
+      this.report({ type: "unlink", path: filePath });
+    }
+  }
+
+  /** The path of a held removal with this inode, which is cancelled, or undefined if there is none. */
+  private takePendingUnlink(inode: string, isDirectory: boolean): string | undefined {
+    for (const [filePath, pending] of this.pendingUnlinks) {
+      if (pending.inode === inode && pending.isDirectory === isDirectory) {
+        this.clearPendingUnlink(filePath);
+        return filePath;
+      }
+    }
+    return undefined;
+  }
+
+  private clearPendingUnlink(filePath: string): void {
+    const pending = this.pendingUnlinks.deleteAndReturnItem(filePath);
+    if (pending) clearTimeout(pending.timeout);
+  }
+
+  /** Re-key a renamed directory and everything known inside it, so its contents are not re-announced. */
+  private moveKnownTree(from: string, to: string): void {
+    const rename = (knownPath: string) => to + knownPath.slice(from.length);
+    const knownMaps: Array<Map<string, unknown>> = [this.knownFiles, this.knownDirectories, this.knownHashes, this.knownStates];
+    for (const known of knownMaps) {
+      for (const [knownPath, value] of [...known]) {
+        if (knownPath !== from && !isWithinDirectory(from, knownPath)) continue;
+        known.delete(knownPath);
+        known.set(rename(knownPath), value);
+      }
+    }
+    // Removals already seen for the old contents were part of the move.
+    for (const pendingPath of [...this.pendingUnlinks.keys()]) {
+      if (isWithinDirectory(from, pendingPath)) this.clearPendingUnlink(pendingPath);
+    }
+  }
+
   private scheduleDirectoryRescan(dir: string): void {
     for (const delay of [25, 75, 150]) {
       setTimeout(() => {
@@ -118,9 +684,14 @@ class PosixFileSystemWatcher extends EventEmitter {
       if (this.closed) return;
 
       const entryPath = path.join(dir, entry.name);
-      if (this.isIgnored(entryPath)) continue;
+      if (await this.isIgnored(entryPath)) continue;
 
       if (entry.isDirectory()) {
+        if (!this.knownDirectories.has(entryPath)) {
+          const stats = await fs.stat(entryPath).catch(() => null);
+          if (!stats?.isDirectory()) continue;
+          this.registerDirectory(entryPath, stats);
+        }
         await this.emitInitialFiles(entryPath);
       } else if (!this.knownFiles.has(entryPath) && !this.pendingEvents.has(entryPath)) {
         this.scheduleStableEvent("add", entryPath);
@@ -133,10 +704,22 @@ class PosixFileSystemWatcher extends EventEmitter {
     return path.isAbsolute(filePath) ? filePath : path.join(this.dir, filePath);
   }
 
-  private scheduleStableEvent(event: WatchEvent, filePath: string): void {
-    const eventToEmit = this.eventWithCreationPrecedence(this.pendingEvents.get(filePath)?.event, event);
+  /**
+   * Report the event once the file stops changing. When its stats are already known, an addition is
+   * paired with a held removal of the same inode right away, so the rename window can stay short.
+   */
+  private scheduleStableEvent(event: WatchEvent, filePath: string, stats?: fs.Stats): void {
+    const previous = this.pendingEvents.get(filePath);
+    const eventToEmit = this.eventWithCreationPrecedence(previous?.event, event);
     this.clearPendingEvent(filePath);
 
+    let inode = previous?.inode;
+    let renamedFrom = previous?.renamedFrom;
+    if (inode === undefined && stats) {
+      inode = inodeKey(stats);
+      if (eventToEmit === "add") renamedFrom = this.takePendingUnlink(inode, false);
+    }
+
     let lastSize = -1;
     let lastModified = -1;
     let stableSince = Date.now();
@@ -146,7 +729,7 @@ class PosixFileSystemWatcher extends EventEmitter {
       if (this.closed) return;
 
       try {
-        if (this.isIgnored(filePath)) {
+        if (await this.isIgnored(filePath)) {
           this.pendingEvents.delete(filePath);
           return;
         }
@@ -157,6 +740,13 @@ class PosixFileSystemWatcher extends EventEmitter {
           return;
         }
 
+        const pending = this.pendingEvents.get(filePath) ?? { event: eventToEmit };
+        if (pending.inode === undefined) {
+          pending.inode = inodeKey(stats);
+          // A new name for a file whose old name just vanished is a rename.
+          if (eventToEmit === "add") pending.renamedFrom = this.takePendingUnlink(pending.inode, false);
+        }
+
         const modified = stats.mtimeMs;
         if (stats.size !== lastSize || modified !== lastModified) {
           lastSize = stats.size;
@@ -166,22 +756,37 @@ class PosixFileSystemWatcher extends EventEmitter {
 
         if (Date.now() - stableSince >= this.options.stabilityThreshold) {
           this.pendingEvents.delete(filePath);
-          if (eventToEmit === "add") {
-            this.knownFiles.add(filePath);
+          // Already carried over by a renameDir of a directory containing it.
+          if (eventToEmit === "add" && this.knownFiles.get(filePath) === pending.inode) return;
+
+          const hash = await this.hashIfEnabled(filePath, stats.size);
+          // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- this.closed can be mutated asynchronously by close(); TS narrowing doesn't account for this across await/loop iterations
+          if (this.closed) return;
+          this.knownStates.set(filePath, { isDirectory: false, size: stats.size, modified });
+          if (eventToEmit === "change" && hash !== undefined && this.knownHashes.get(filePath) === hash) return;
+          if (hash === undefined) this.knownHashes.delete(filePath);
+          else this.knownHashes.set(filePath, hash);
+
+          this.knownFiles.set(filePath, pending.inode);
+          if (eventToEmit === "add" && pending.renamedFrom) {
+            this.knownFiles.delete(pending.renamedFrom);
+            this.knownHashes.delete(pending.renamedFrom);
+            this.knownStates.delete(pending.renamedFrom);
+            this.report({ type: "rename", path: filePath, oldPath: pending.renamedFrom, hash });
+          } else {
+            this.report({ type: eventToEmit, path: filePath, hash });
           }
-          this.emit(eventToEmit, filePath);
           return;
         }
 
-        this.pendingEvents.set(filePath, {
-          event: eventToEmit,
-          timeout: setTimeout(check, this.options.pollInterval),
-        });
+        clearTimeout(pending.timeout);
+        pending.timeout = setTimeout(check, this.options.pollInterval);
+        this.pendingEvents.set(filePath, pending);
       } catch (error) {
         this.pendingEvents.delete(filePath);
         const { code } = error as { code?: string };
         if (code === "ENOENT") {
-          this.emit("unlink", filePath);
+          this.scheduleUnlink(filePath);
         } else {
           this.emit("error", error);
         }
@@ -191,6 +796,8 @@ class PosixFileSystemWatcher extends EventEmitter {
     this.pendingEvents.set(filePath, {
       event: eventToEmit,
       timeout: setTimeout(check, this.options.pollInterval),
+      inode,
+      renamedFrom,
     });
   }
 
@@ -205,33 +812,272 @@ class PosixFileSystemWatcher extends EventEmitter {
     }
   }
 
-  private isIgnored(filePath: string): boolean {
+  private async hashIfEnabled(filePath: string, size: number): Promise<string | undefined> {
+    if (!this.options.hashContents || size > this.options.hashMaxFileSize) return undefined;
+    return hashContent(await fs.readFile(filePath));
+  }
+
+  private async isIgnored(filePath: string): Promise<boolean> {
     try {
-      return this.options.ignoreFilter(filePath);
+      return await this.options.ignoreFilter(filePath);
     } catch {
       return true;
     }
   }
 }
 
+async function readFileIfExists(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    const { code } = error as { code?: string };
+    if (code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+function isNativeWatchUnavailable(error: unknown): boolean {
+  const { code } = error as { code?: string };
+  return code !== undefined && NATIVE_WATCH_UNAVAILABLE.has(code);
+}
+
 export default class PosixFileSystemProvider implements FileSystemProvider {
   readonly name = "PosixFilesystemProvider";
   description = "Provides access to a local, posix style filesystem";
 
-  constructor(readonly options: PosixFileSystemProviderOptions = {}) {}
+  private readonly pathGuard: PathGuard;
+  private readonly journal: FileJournal | undefined;
+
+  constructor(readonly options: PosixFileSystemProviderOptions = PosixFileSystemProviderOptionsSchema.parse({})) {
+    this.pathGuard = new PathGuard(options);
+    if (options.journalDirectory) {
+      this.journal = new FileJournal(path.resolve(options.journalDirectory), options.journalMaxEntries);
+    }
+  }
+
+  async writeFile(filePath: string, content: string | Buffer, options: PosixWriteFileOptions = {}): Promise<boolean> {
+    await this.pathGuard.assert(filePath, "write");
+    await assertWritePreconditions(filePath, options);
+
+    if (this.options.preserveLineEndings && typeof content === "string") {
+      const existing = await this.readFileHead(filePath, TEXT_CONVENTION_SNIFF_BYTES);
+      if (existing) content = matchTextConventions(existing, content);
+    }
 
-  async writeFile(filePath: string, content: string | Buffer): Promise<boolean> {
-    await fs.outputFile(filePath, content);
+    // writeFileAtomic writes through symlinks, so snapshot the file that actually changes.
+    const targetPath = await fs.realpath(filePath).catch(() => filePath);
+    await this.journaled("writeFile", [targetPath], () => writeFileAtomic(filePath, content, { preserveMetadata: this.options.preserveFileMetadata }));
     return true;
   }
 
+  /** SHA-256 (hex) of a file's content, for use as writeFile's expectedHash. */
+  async hashFile(filePath: string): Promise<string> {
+    await this.pathGuard.assert(filePath, "read");
+    return hashContent(await fs.readFile(filePath));
+  }
+
+  /**
+   * Apply a unified diff, which may cover several files, including creations (--- /dev/null), deletions
+   * (+++ /dev/null) and renames. Hunks are matched with an offset, ignoring whitespace, or with up to
+   * fuzz context lines dropped when they do not apply cleanly. Nothing is written unless every hunk of
+   * every file applies, and a file changed on disk while the patch was being applied fails the whole
+   * patch with a WriteConflictError, leaving everything as it was.
+   */
+  async applyPatch(diff: string, options: ApplyPatchOptions = {}): Promise<PatchResult> {
+    const { cwd = process.cwd(), fuzz = DEFAULT_PATCH_FUZZ, dryRun = false } = options;
+    const planned = new Map<string, PlannedFileChange>();
+    const files: FilePatchResult[] = [];
+
+    for (const fileDiff of parseUnifiedDiff(diff)) {
+      const sourcePath = fileDiff.oldPath === null ? null : path.resolve(cwd, fileDiff.oldPath);
+      const targetPath = fileDiff.newPath === null ? null : path.resolve(cwd, fileDiff.newPath);
+      const filePath = targetPath ?? sourcePath;
+      if (filePath === null) throw new Error("Invalid patch: a file diff has /dev/null on both sides");
+      for (const touched of new Set([sourcePath, targetPath])) {
+        if (touched !== null) await this.pathGuard.assert(touched, "write");
+      }
+
+      const rejectFile = (reason: string) => files.push({ path: filePath, status: "rejected", reason, hunks: [] });
+      const source = sourcePath === null ? null : await this.plannedContent(planned, sourcePath);
+      if (sourcePath !== null && source === null) {
+        rejectFile(`File ${sourcePath} does not exist`);
+        continue;
+      }
+      if (targetPath !== null && targetPath !== sourcePath && (await this.plannedContent(planned, targetPath)) !== null) {
+        rejectFile(`File ${targetPath} already exists`);
+        continue;
+      }
+
+      const text = source === null ? EMPTY_TEXT : decodeTextLines(Buffer.from(source));
+      if (!text) {
+        rejectFile(`File ${filePath} is binary and cannot be patched`);
+        continue;
+      }
+
+      const { text: patched, results } = applyHunks(text, fileDiff.hunks, fuzz);
+      if (results.some(result => result.status === "rejected")) {
+        files.push({ path: filePath, status: "rejected", hunks: results });
+        continue;
+      }
+
+      if (targetPath === null) {
+        if (patched.lines.length > 0) {
+          files.push({ path: filePath, status: "rejected", reason: "The file has content the deletion does not remove", hunks: results });
+          continue;
+        }
+        planned.get(filePath)!.content = null;
+        files.push({ path: filePath, status: "deleted", hunks: results });
+      } else {
+        planned.get(targetPath)!.content = encodeTextLines(patched);
+        if (sourcePath === null) {
+          files.push({ path: targetPath, status: "created", hunks: results });
+        } else if (sourcePath !== targetPath) {
+          planned.get(sourcePath)!.content = null;
+          files.push({ path: targetPath, status: "renamed", previousPath: sourcePath, hunks: results });
+        } else {
+          files.push({ path: targetPath, status: "modified", hunks: results });
+        }
+      }
+    }
+
+    return this.commitPatch(planned, files, dryRun);
+  }
+
+  /**
+   * Apply search/replace edit blocks, in order, with the same all-or-nothing guarantee as applyPatch.
+   * Each search must match exactly once (or, failing that, once ignoring whitespace) unless replaceAll
+   * is set. Hunk results are indexed by position in the edits array.
+   */
+  async applyEdits(edits: EditBlock[], options: Omit<ApplyPatchOptions, "fuzz"> = {}): Promise<PatchResult> {
+    const { cwd = process.cwd(), dryRun = false } = options;
+    const planned = new Map<string, PlannedFileChange>();
+    const files: FilePatchResult[] = [];
+
+    const editsByPath = new Map<string, Array<{ index: number; edit: EditBlock }>>();
+    for (const [index, edit] of edits.entries()) {
+      const filePath = path.resolve(cwd, edit.path);
+      editsByPath.set(filePath, [...(editsByPath.get(filePath) ?? []), { index, edit }]);
+    }
+
+    for (const [filePath, fileEdits] of editsByPath) {
+      await this.pathGuard.assert(filePath, "write");
+      const current = await this.plannedContent(planned, filePath);
+
+      const results: HunkResult[] = [];
+      let pending = fileEdits;
+      let text: TextLines | null;
+      if (current === null) {
+        // An empty search creates a missing file; any further blocks then edit the new content.
+        const [first, ...rest] = fileEdits;
+        if (first?.edit.search !== "") {
+          files.push({ path: filePath, status: "rejected", reason: `File ${filePath} does not exist`, hunks: [] });
+          continue;
+        }
+        text = decodeTextLines(Buffer.from(first.edit.replace));
+        results.push({ index: first.index, status: "applied", line: 1, offset: 0, fuzz: 0, ignoredWhitespace: false });
+        pending = rest;
+      } else {
+        text = decodeTextLines(Buffer.from(current));
+      }
+      if (!text) {
+        files.push({ path: filePath, status: "rejected", reason: `File ${filePath} is binary and cannot be edited`, hunks: [] });
+        continue;
+      }
+
+      const { text: edited, results: editResults } = applyEditBlocks(text, pending.map(({ edit }) => edit));
+      results.push(...editResults.map(result => ({ ...result, index: pending[result.index]!.index })));
+      if (results.some(result => result.status === "rejected")) {
+        files.push({ path: filePath, status: "rejected", hunks: results });
+        continue;
+      }
+
+      planned.get(filePath)!.content = encodeTextLines(edited);
+      files.push({ path: filePath, status: current === null ? "created" : "modified", hunks: results });
+    }
+
+    return this.commitPatch(planned, files, dryRun);
+  }
+
+  /** What a file holds as far as the patch being planned is concerned, reading it from disk on first use. */
+  private async plannedContent(planned: Map<string, PlannedFileChange>, filePath: string): Promise<Buffer | string | null> {
+    let change = planned.get(filePath);
+    if (!change) {
+      const original = await readFileIfExists(filePath);
+      change = { original, content: original };
+      planned.set(filePath, change);
+    }
+    return change.content;
+  }
+
+  /**
+   * Write every planned change, or none of them: the originals are re-checked first, and files already
+   * written are put back if a later write fails.
+   */
+  private async commitPatch(planned: Map<string, PlannedFileChange>, files: FilePatchResult[], dryRun: boolean): Promise<PatchResult> {
+    if (files.some(file => file.status === "rejected")) return { applied: false, files };
+    if (dryRun) return { applied: true, files };
+
+    const changed = [...planned].filter(([, change]) => change.content !== change.original);
+    await this.journaled(
+      "patch",
+      changed.map(([filePath]) => filePath),
+      async () => {
+        for (const [filePath, { original }] of changed) {
+          const current = await readFileIfExists(filePath);
+          if (current === null && original !== null) throw new WriteConflictError(filePath, "missing");
+          if (current !== null && (original === null || !current.equals(original))) throw new WriteConflictError(filePath, "modified");
+        }
+
+        const written: Array<[string, PlannedFileChange]> = [];
+        try {
+          for (const [filePath, change] of changed) {
+            if (change.content === null) await fs.remove(filePath);
+            else await writeFileAtomic(filePath, change.content, { preserveMetadata: this.options.preserveFileMetadata });
+            written.push([filePath, change]);
+          }
+        } catch (error) {
+          for (const [filePath, { original }] of written.reverse()) {
+            if (original === null) await fs.remove(filePath).catch(() => {});
+            else await writeFileAtomic(filePath, original, { preserveMetadata: this.options.preserveFileMetadata }).catch(() => {});
+          }
+          throw error;
+        }
+      },
+    );
+    return { applied: true, files };
+  }
+
   async appendFile(filePath: string, finalContent: string | Buffer): Promise<boolean> {
+    await this.pathGuard.assert(filePath, "write");
+
+    if (this.options.preserveLineEndings && typeof finalContent === "string") {
+      const existing = await this.readFileHead(filePath, TEXT_CONVENTION_SNIFF_BYTES);
+      const lineEnding = existing && !isBinaryContent(existing) ? detectLineEnding(existing.toString("utf-8")) : null;
+      if (lineEnding) finalContent = convertLineEndings(finalContent, lineEnding);
+    }
+
     await fs.ensureFile(filePath);
     await fs.appendFile(filePath, finalContent);
     return true;
   }
 
+  /** The first bytes of an existing file, or null if it does not exist or cannot be read. */
+  private async readFileHead(filePath: string, maxBytes: number): Promise<Buffer | null> {
+    let fd: number | undefined;
+    try {
+      fd = await fs.open(filePath, "r");
+      const buffer = Buffer.alloc(maxBytes);
+      const { bytesRead } = await fs.read(fd, buffer, 0, maxBytes, 0);
+      return buffer.subarray(0, bytesRead);
+    } catch {
+      return null;
+    } finally {
+      if (fd !== undefined) await fs.close(fd);
+    }
+  }
+
   async deleteFile(filePath: string): Promise<boolean> {
+    await this.pathGuard.assert(filePath, "write", { followFinalSymlink: false });
     if (!(await fs.pathExists(filePath))) {
       throw new Error(`File ${filePath} does not exist`);
     }
@@ -239,19 +1085,131 @@ export default class PosixFileSystemProvider implements FileSystemProvider {
     if (!stats.isFile()) {
       throw new Error(`Path ${filePath} is not a file`);
     }
-    await fs.remove(filePath);
+    await this.journaled("deleteFile", [filePath], () => fs.remove(filePath));
     return true;
   }
 
+  /**
+   * Remove a directory. Without recursive it must be empty. Returns every path removed, parents before
+   * their contents; with dryRun nothing is removed and the list shows what would be. Symlinks inside
+   * the tree are removed, never followed.
+   */
+  async deleteDirectory(dirPath: string, options: { recursive?: boolean | undefined; dryRun?: boolean | undefined } = {}): Promise<string[]> {
+    const { recursive = false, dryRun = false } = options;
+    await this.pathGuard.assertRemovable(dirPath, this.options.minDeletionDepth);
+
+    if (!(await this.lexists(dirPath))) {
+      throw new Error(`Directory ${dirPath} does not exist`);
+    }
+    const stats = await fs.lstat(dirPath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Path ${dirPath} is not a directory`);
+    }
+
+    const removed = [dirPath];
+    if (recursive) {
+      for await (const entry of this.listForRemoval(dirPath)) removed.push(entry);
+    } else if ((await fs.readdir(dirPath)).length > 0) {
+      throw new Error(`Directory ${dirPath} is not empty`);
+    }
+
+    if (!dryRun) {
+      await this.journaled("deleteDirectory", [dirPath], () => (recursive ? fs.remove(dirPath) : fs.rmdir(dirPath)));
+    }
+    return removed;
+  }
+
+  private async *listForRemoval(dir: string): AsyncGenerator<string> {
+    for (const item of await fs.readdir(dir, { withFileTypes: true })) {
+      const itemPath = path.join(dir, item.name);
+      yield itemPath;
+      if (item.isDirectory()) yield* this.listForRemoval(itemPath);
+    }
+  }
+
   async readFile(filePath: string): Promise<Buffer | null> {
+    await this.pathGuard.assert(filePath, "read");
+    const { maxReadFileSize } = this.options;
+    if (maxReadFileSize !== undefined) {
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats?.isFile() && stats.size > maxReadFileSize) {
+        throw new Error(`File ${filePath} is ${stats.size} bytes, which exceeds the ${maxReadFileSize} byte read limit`);
+      }
+    }
     try {
       return await fs.readFile(filePath);
-    } catch {
-      return null;
+    } catch (error) {
+      const { code } = error as { code?: string };
+      // Missing files read as null per the FileSystemProvider contract; anything else is a real problem.
+      if (code === "ENOENT" || code === "ENOTDIR") return null;
+      throw toFileAccessError(filePath, error);
+    }
+  }
+
+  /**
+   * Read a byte range of a file without reading the rest of it. maxReadFileSize limits the range rather
+   * than the file. Failures throw a FileAccessError saying whether the file is missing, unreadable or a directory.
+   */
+  async readFileRange(filePath: string, { start = 0, end }: ByteRange = {}): Promise<Buffer> {
+    return this.withReadableFile(filePath, async (fd, size) => {
+      const from = start < 0 ? Math.max(0, size + start) : Math.min(start, size);
+      const to = Math.max(from, Math.min(size, end ?? size));
+      this.assertWithinReadLimit(filePath, to - from);
+      return readBytes(fd, from, to);
+    });
+  }
+
+  /**
+   * Read a file as text, optionally just a range of lines, decoding UTF-8, UTF-16 or Latin-1. Line ranges
+   * are found by scanning from the start (startLine/endLine) or the end (tailLines), so the last lines of a
+   * large log are read without loading it. A byte order mark is not part of the text.
+   */
+  async readTextFile(filePath: string, options: ReadTextOptions = {}): Promise<TextReadResult> {
+    const { encoding = "auto", startLine, endLine, tailLines } = options;
+    if (tailLines !== undefined && (startLine !== undefined || endLine !== undefined)) {
+      throw new Error("tailLines cannot be combined with startLine or endLine");
+    }
+    assertValidLineRange({ startLine, endLine, tailLines });
+
+    return this.withReadableFile(filePath, async (fd, size) => {
+      const detected = detectTextEncoding(await readBytes(fd, 0, Math.min(size, ENCODING_SNIFF_BYTES)));
+      const textEncoding = encoding === "auto" ? detected.encoding : encoding;
+      const file = { size, textStart: detected.encoding === textEncoding ? detected.bomLength : 0, encoding: textEncoding };
+
+      const lineRangeRequested = startLine !== undefined || endLine !== undefined || tailLines !== undefined;
+      const { start, end } = lineRangeRequested ? await findLineRange(fd, file, { startLine, endLine, tailLines }) : { start: file.textStart, end: size };
+      this.assertWithinReadLimit(filePath, end - start);
+      return { text: decodeText(await readBytes(fd, start, end), textEncoding), encoding: textEncoding, start, end, size };
+    });
+  }
+
+  private async withReadableFile<T>(filePath: string, read: (fd: number, size: number) => Promise<T>): Promise<T> {
+    await this.pathGuard.assert(filePath, "read");
+    let fd: number;
+    try {
+      fd = await fs.open(filePath, "r");
+    } catch (error) {
+      throw toFileAccessError(filePath, error);
+    }
+    try {
+      const stats = await fs.fstat(fd);
+      if (stats.isDirectory()) throw new FileAccessError(filePath, "isDirectory");
+      return await read(fd, stats.size);
+    } finally {
+      await fs.close(fd);
+    }
+  }
+
+  private assertWithinReadLimit(filePath: string, bytes: number): void {
+    const { maxReadFileSize } = this.options;
+    if (maxReadFileSize !== undefined && bytes > maxReadFileSize) {
+      throw new Error(`Reading ${bytes} bytes of ${filePath} exceeds the ${maxReadFileSize} byte read limit`);
     }
   }
 
   async rename(oldPath: string, newPath: string): Promise<boolean> {
+    await this.pathGuard.assert(oldPath, "write", { followFinalSymlink: false, recursive: true });
+    await this.pathGuard.assert(newPath, "write", { recursive: true });
     if (!(await fs.pathExists(oldPath))) {
       throw new Error(`Path ${oldPath} does not exist`);
     }
@@ -259,39 +1217,185 @@ export default class PosixFileSystemProvider implements FileSystemProvider {
       throw new Error(`Path ${newPath} already exists`);
     }
     await fs.ensureDir(path.dirname(newPath));
-    await fs.rename(oldPath, newPath);
+    await this.journaled("rename", [], () => fs.rename(oldPath, newPath), [{ from: oldPath, to: newPath }]);
     return true;
   }
 
-  exists(filePath: string): Promise<boolean> {
+  async exists(filePath: string): Promise<boolean> {
+    await this.pathGuard.assert(filePath, "read");
     return fs.pathExists(filePath);
   }
 
-  async stat(filePath: string): Promise<StatLike> {
+  /**
+   * lstat-based: a symlink reports isSymbolicLink along with its target, while isFile, isDirectory,
+   * size, times and permissions describe what it points at. Dangling links, and links whose target
+   * lies outside the confined roots, describe the link itself.
+   */
+  async stat(filePath: string): Promise<PosixStatLike> {
+    await this.pathGuard.assert(filePath, "read", { followFinalSymlink: false });
+
+    let linkStats: fs.Stats;
     try {
-      const stats = await fs.stat(filePath);
-      return {
-        exists: true,
-        path: filePath,
-        absolutePath: filePath,
-        isFile: stats.isFile(),
-        isDirectory: stats.isDirectory(),
-        isSymbolicLink: stats.isSymbolicLink(),
-        size: stats.size,
-        created: stats.birthtime,
-        modified: stats.mtime,
-        accessed: stats.atime,
-      };
+      linkStats = await fs.lstat(filePath);
     } catch {
       return {
         exists: false,
         path: filePath,
       };
     }
+
+    let stats = linkStats;
+    let symlink: { symlinkTarget: string; isDanglingSymlink: boolean } | undefined;
+    if (linkStats.isSymbolicLink()) {
+      symlink = { symlinkTarget: await fs.readlink(filePath), isDanglingSymlink: false };
+      if (await this.pathGuard.allows(filePath, "read")) {
+        try {
+          stats = await fs.stat(filePath);
+        } catch {
+          // ENOENT, or ELOOP for a link cycle: either way there is nothing at the end of the link
+          symlink.isDanglingSymlink = true;
+        }
+      }
+    }
+
+    return {
+      exists: true,
+      path: filePath,
+      absolutePath: filePath,
+      isFile: stats.isFile(),
+      isDirectory: stats.isDirectory(),
+      isSymbolicLink: linkStats.isSymbolicLink(),
+      size: stats.size,
+      created: stats.birthtime,
+      modified: stats.mtime,
+      accessed: stats.atime,
+      mode: stats.mode & 0o7777,
+      permissions: formatPermissions(stats.mode),
+      uid: stats.uid,
+      gid: stats.gid,
+      inode: stats.ino,
+      linkCount: stats.nlink,
+      ...symlink,
+    };
+  }
+
+  /**
+   * Create a symbolic link at linkPath pointing to target. A relative target is stored as given and
+   * resolved against the link's directory, as `ln -s` does.
+   */
+  async createSymlink(target: string, linkPath: string): Promise<boolean> {
+    await this.pathGuard.assert(linkPath, "write", { followFinalSymlink: false });
+    // Refuse to plant links out of the confined roots, even though following them later would be rejected.
+    await this.pathGuard.assert(path.resolve(path.dirname(linkPath), target), "read");
+
+    if (await this.lexists(linkPath)) {
+      throw new Error(`Path ${linkPath} already exists`);
+    }
+    await fs.ensureDir(path.dirname(linkPath));
+    await fs.symlink(target, linkPath);
+    return true;
+  }
+
+  /** The target of a symbolic link, exactly as stored. */
+  async readLink(linkPath: string): Promise<string> {
+    await this.pathGuard.assert(linkPath, "read", { followFinalSymlink: false });
+
+    if (!(await this.lexists(linkPath))) {
+      throw new Error(`Path ${linkPath} does not exist`);
+    }
+    const stats = await fs.lstat(linkPath);
+    if (!stats.isSymbolicLink()) {
+      throw new Error(`Path ${linkPath} is not a symbolic link`);
+    }
+    return fs.readlink(linkPath);
+  }
+
+  async createHardLink(existingPath: string, newPath: string): Promise<boolean> {
+    // A hard link shares content with the original, so writing through it writes the original.
+    await this.pathGuard.assert(existingPath, "write");
+    await this.pathGuard.assert(newPath, "write", { followFinalSymlink: false });
+
+    if (!(await fs.pathExists(existingPath))) {
+      throw new Error(`Path ${existingPath} does not exist`);
+    }
+    const stats = await fs.stat(existingPath);
+    if (!stats.isFile()) {
+      throw new Error(`Path ${existingPath} is not a file`);
+    }
+    if (await this.lexists(newPath)) {
+      throw new Error(`Path ${newPath} already exists`);
+    }
+    await fs.ensureDir(path.dirname(newPath));
+    await fs.link(existingPath, newPath);
+    return true;
+  }
+
+  /**
+   * Change a path's permission bits. Accepts a number (0o755), an octal string ("755"),
+   * or symbolic clauses as chmod takes them ("+x", "u+x,go-w"). Returns the resulting mode.
+   */
+  async chmod(filePath: string, mode: number | string): Promise<number> {
+    await this.pathGuard.assert(filePath, "write");
+
+    if (!(await fs.pathExists(filePath))) {
+      throw new Error(`Path ${filePath} does not exist`);
+    }
+    const stats = await fs.stat(filePath);
+    const newMode = applyModeChange(stats.mode, mode, stats.isDirectory());
+    await fs.chmod(filePath, newMode);
+    return newMode;
+  }
+
+  /** Journal entries for undoable operations, oldest first. Empty when journaling is off. */
+  async listJournalEntries(): Promise<JournalEntry[]> {
+    return this.journal ? this.journal.list() : [];
+  }
+
+  /** Undo the operation recorded under the given journal entry id. */
+  async restoreJournalEntry(id: string): Promise<JournalEntry> {
+    if (!this.journal) {
+      throw new Error("Journaling is not enabled for this filesystem provider");
+    }
+    const entry = await this.journal.get(id);
+    for (const item of entry.items) {
+      await this.pathGuard.assert(item.path, "write", { followFinalSymlink: false, recursive: true });
+      if ("movedFrom" in item) await this.pathGuard.assert(item.movedFrom, "write", { followFinalSymlink: false, recursive: true });
+    }
+    await this.journal.restore(entry);
+    return entry;
+  }
+
+  /** Run a destructive operation, first snapshotting what it will replace when journaling is on. */
+  private async journaled<T>(
+    operation: JournalOperation,
+    paths: string[],
+    run: () => Promise<T>,
+    moves: Array<{ from: string; to: string }> = [],
+  ): Promise<T> {
+    if (!this.journal) return run();
+
+    const entry = await this.journal.record(operation, paths, moves);
+    try {
+      return await run();
+    } catch (error) {
+      await this.journal.discard(entry);
+      throw error;
+    }
+  }
+
+  /** Like exists, but true for dangling symlinks too. */
+  private async lexists(filePath: string): Promise<boolean> {
+    try {
+      await fs.lstat(filePath);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   async createDirectory(dirPath: string, options: { recursive?: boolean | undefined } = {}): Promise<boolean> {
     const { recursive = false } = options;
+    await this.pathGuard.assert(dirPath, "write");
 
     if (await fs.pathExists(dirPath)) {
       const stats = await fs.stat(dirPath);
@@ -321,6 +1425,8 @@ export default class PosixFileSystemProvider implements FileSystemProvider {
 
   async copy(source: string, destination: string, options: { overwrite?: boolean | undefined } = {}): Promise<boolean> {
     const { overwrite = false } = options;
+    await this.pathGuard.assert(source, "read");
+    await this.pathGuard.assert(destination, "write", { recursive: true });
 
     if (!(await fs.pathExists(source))) {
       throw new Error(`Source path ${source} does not exist`);
@@ -330,106 +1436,481 @@ export default class PosixFileSystemProvider implements FileSystemProvider {
       throw new Error(`Destination path ${destination} already exists`);
     }
 
-    await fs.copy(source, destination, { overwrite });
+    await this.journaled("copy", [destination], () => fs.copy(source, destination, { overwrite }));
     return true;
   }
 
-  async glob(pattern: string, { ignoreFilter, includeDirectories = false }: GlobOptions): Promise<string[]> {
-    const glob = new Glob(pattern);
+  /**
+   * Find paths matching one or more glob patterns, relative to cwd (default: the process working
+   * directory) unless absolute. Patterns starting with "!" exclude matches, as do the exclude patterns.
+   */
+  async glob(pattern: string | string[], options: PosixGlobOptions): Promise<string[]> {
+    const { includeDirectories = false, cwd = process.cwd(), exclude = [], maxDepth, sort } = options;
+    const patterns = arrayableToArray(pattern);
+    const includes = patterns.filter(item => !item.startsWith("!")).map(normalizeGlobPattern);
+    const excludes = [...patterns.filter(item => item.startsWith("!")).map(item => item.slice(1)), ...exclude].map(
+      item => new Glob(normalizeGlobPattern(item)),
+    );
+    if (includes.length === 0) {
+      throw new Error("At least one glob pattern to include is required");
+    }
 
-    try {
-      const files = await Array.fromAsync(glob.scan({ dot: true, onlyFiles: !includeDirectories, absolute: true }));
+    if (options.cwd !== undefined) await this.pathGuard.assert(cwd, "read");
+    const gitIgnore = await this.gitIgnoreFor(options.cwd ?? globBaseDirectory(includes[0]!, cwd));
+
+    // Walk from each pattern's literal prefix with the same pruning walker as getDirectoryTree, so
+    // ignored directories are never read, and match each entry as it is found.
+    const matches = new Set<string>();
+    for (const include of includes) {
+      const includeGlob = new Glob(include);
+      const base = globBaseDirectory(include, cwd);
+      // maxDepth counts from cwd; stop the walk there when the pattern starts inside cwd.
+      const baseRelative = path.relative(cwd, base);
+      const baseDepth = baseRelative === "" ? 0 : baseRelative.split(path.sep).length;
+      const walkDepth = maxDepth !== undefined && !baseRelative.startsWith("..") ? maxDepth - baseDepth : Number.POSITIVE_INFINITY;
+      if (walkDepth < 1) continue;
+      try {
+        for await (const entry of this.walkDirectoryTree(base, options.ignoreFilter, walkDepth, gitIgnore)) {
+          const isDirectory = entry.endsWith("/");
+          if (isDirectory && !includeDirectories) continue;
+          const file = isDirectory ? entry.slice(0, -1) : entry;
+          if (includeGlob.match(path.isAbsolute(include) ? file : path.relative(cwd, file))) matches.add(file);
+        }
+      } catch (err) {
+        const { code } = err as { code?: string };
+        if (code === "ENOENT" || code === "ENOTDIR") continue;
+        throw err;
+      }
+    }
+
+    const allowed: string[] = [];
+    for (const file of matches) {
+      const relative = path.relative(cwd, file);
+      if (maxDepth !== undefined && relative.split(path.sep).length > maxDepth) continue;
+      if (excludes.some(excludeGlob => excludeGlob.match(relative) || excludeGlob.match(file))) continue;
+      // Matches outside the confined roots are dropped rather than rejected, as the caller never named them.
+      if (await this.pathGuard.allows(file, "read")) allowed.push(file);
+    }
 
-      return files.filter(file => !ignoreFilter(file));
-    } catch (err) {
-      // Glob throws errors if the path does not exist, which sucks
-      if (Error.isError(err) && err.message.includes("ENOENT")) {
-        return [];
+    if (sort === "path") {
+      allowed.sort();
+    } else if (sort === "mtime") {
+      const modified = new Map<string, number>();
+      for (const file of allowed) {
+        modified.set(file, await fs.stat(file).then(stats => stats.mtimeMs, () => 0));
       }
-      throw err;
+      allowed.sort((a, b) => modified.get(b)! - modified.get(a)!);
     }
+    return allowed;
   }
 
-  async watch(dir: string, { ignoreFilter, pollInterval = 1000, stabilityThreshold = 2000 }: WatchOptions): Promise<PosixFileSystemWatcher> {
+  async watch(
+    dir: string,
+    {
+      ignoreFilter,
+      pollInterval = 1000,
+      stabilityThreshold = 2000,
+      renameWindow = DEFAULT_WATCH_RENAME_WINDOW,
+      usePolling,
+      batchWindow,
+      hashContents = false,
+      hashMaxFileSize = DEFAULT_WATCH_HASH_MAX_FILE_SIZE,
+    }: PosixWatchOptions,
+  ): Promise<PosixFileSystemWatcher> {
+    await this.pathGuard.assert(dir, "read");
     if (!(await fs.pathExists(dir))) {
       throw new Error(`Directory ${dir} does not exist`);
     }
 
-    return new PosixFileSystemWatcher(dir, { ignoreFilter, pollInterval, stabilityThreshold });
+    const gitIgnore = await this.gitIgnoreFor(dir);
+    return new PosixFileSystemWatcher(dir, {
+      ignoreFilter: this.withGitIgnore(gitIgnore, ignoreFilter),
+      // A long-lived watcher sees ignore files change; pick up the new rules for later paths.
+      invalidateIgnoreRules: filePath => {
+        if (GitIgnoreFilter.isIgnoreFile(filePath)) gitIgnore?.clearCache();
+      },
+      pollInterval,
+      stabilityThreshold,
+      renameWindow,
+      usePolling: usePolling ?? (await isNetworkFilesystem(dir)),
+      batchWindow,
+      hashContents,
+      hashMaxFileSize,
+    });
+  }
+
+  async grep(searchString: string | string[], options: PosixGrepOptions): Promise<PosixGrepResults> {
+    const results: PosixGrepResult[] = [];
+    // A single worker keeps results in directory-walk order, as callers of the array form expect.
+    const stream = this.grepStream(searchString, { concurrency: 1, ...options });
+    for (;;) {
+      const next = await stream.next();
+      if (next.done) return Object.assign(results, next.value);
+      results.push(next.value);
+    }
   }
 
-  async grep(searchString: string | string[], options: GrepOptions): Promise<GrepResult[]> {
-    const { ignoreFilter, includeContent = {}, cwd = process.cwd() } = options;
-    const { linesBefore = 0, linesAfter = 0 } = includeContent;
+  /**
+   * Search files under cwd, yielding results as each file finishes scanning. Up to `concurrency`
+   * files are read at once, so results are grouped per file but files arrive in completion order.
+   * The generator's return value reports truncation and skipped files.
+   */
+  async *grepStream(searchString: string | string[], options: PosixGrepStreamOptions): AsyncGenerator<PosixGrepResult, PosixGrepSummary> {
+    const {
+      ignoreFilter,
+      includeContent = {},
+      cwd = process.cwd(),
+      maxFileSize = this.options.grepMaxFileSize,
+      maxResults = this.options.grepMaxResults,
+      includeBinary = false,
+      concurrency = DEFAULT_GREP_CONCURRENCY,
+      signal,
+    } = options;
     const searchStrings = arrayableToArray(searchString);
 
     if (searchStrings.every(item => !item)) {
       throw new Error("Search string is required");
     }
+    const matchLine = createLineMatcher(searchStrings, options);
+    await this.pathGuard.assert(cwd, "read");
+
+    const summary: PosixGrepSummary = { truncated: false, skippedFiles: [] };
+    const scanOptions = { ...includeContent, maxFileSize, maxResults, includeBinary };
+    type Settled = { kind: "scan"; id: number; scan: GrepFileScan } | { kind: "walk"; next: IteratorResult<string> };
+    const pending = new Map<number, Promise<Settled>>();
+    const files = this.getDirectoryTree(cwd, { ignoreFilter });
+    let walk: Promise<Settled> | undefined;
+    let walking = true;
+    let nextId = 0;
+    let resultCount = 0;
+
+    // Yields a finished file's results, returning true once a match past maxResults shows the results are truncated.
+    function* emit(scan: GrepFileScan): Generator<PosixGrepResult, boolean> {
+      if (scan.skipped) summary.skippedFiles.push({ file: scan.file, reason: scan.skipped });
+      for (const result of scan.results) {
+        if (resultCount >= maxResults) {
+          summary.truncated = true;
+          return true;
+        }
+        resultCount++;
+        yield result;
+      }
+      return false;
+    }
+
+    try {
+      // Race the directory walk against the running scans, so each file's results are yielded as soon as it
+      // finishes while the walk keeps the pool full.
+      for (;;) {
+        const racers = [...pending.values()];
+        if (walking && pending.size < Math.max(1, concurrency)) {
+          walk ??= files.next().then(next => ({ kind: "walk", next }));
+          racers.push(walk);
+        }
+        if (racers.length === 0) break;
+
+        const settled = await Promise.race(racers);
+        signal?.throwIfAborted();
+        if (settled.kind === "scan") {
+          pending.delete(settled.id);
+          if (yield* emit(settled.scan)) return summary;
+          continue;
+        }
 
-    const allFiles: string[] = [];
-    for await (const file of this.getDirectoryTree(cwd, { ignoreFilter })) {
-      allFiles.push(file);
+        walk = undefined;
+        if (settled.next.done) {
+          walking = false;
+          continue;
+        }
+        const file = settled.next.value;
+        if (file.endsWith("/")) continue;
+        const id = nextId++;
+        pending.set(id, this.grepFile(file, matchLine, scanOptions).then(scan => ({ kind: "scan", id, scan })));
+      }
+    } finally {
+      await files.return(undefined);
     }
 
-    const filesToSearch = allFiles.filter(file => !ignoreFilter(file));
+    return summary;
+  }
 
-    const results: Array<{
-      file: string;
-      line: number;
-      match: string;
-      content: string | null;
-    }> = [];
+  private async grepFile(
+    file: string,
+    matchLine: LineMatcher,
+    options: { linesBefore?: number | undefined; linesAfter?: number | undefined; maxFileSize: number; maxResults: number; includeBinary: boolean },
+  ): Promise<GrepFileScan> {
+    const { linesBefore = 0, linesAfter = 0, maxFileSize, maxResults, includeBinary } = options;
+    const results: PosixGrepResult[] = [];
 
-    for (const file of filesToSearch) {
-      try {
-        const content = await this.readFile(file);
-        if (!content) continue;
-        const lines = content.toString("utf-8").split("\n");
-
-        for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-          const line = lines[lineNum]!;
-
-          if (searchStrings.some(value => value && line.includes(value))) {
-            const startLine = Math.max(0, lineNum - linesBefore);
-            const endLine = Math.min(lines.length - 1, lineNum + linesAfter);
-
-            let contextContent: string | null = null;
-            if (linesBefore > 0 || linesAfter > 0) {
-              contextContent = lines.slice(startLine, endLine + 1).join("\n");
-            }
-
-            results.push({
-              file,
-              line: lineNum + 1,
-              match: line,
-              content: contextContent,
-            });
+    try {
+      const stats = await fs.stat(file);
+      if (!stats.isFile()) return { file, results };
+      if (stats.size > Math.min(maxFileSize, this.options.maxReadFileSize ?? Number.POSITIVE_INFINITY)) return { file, results, skipped: "tooLarge" };
+
+      const content = await this.readFile(file);
+      if (!content) return { file, results };
+      if (!includeBinary && isBinaryContent(content)) return { file, results, skipped: "binary" };
+
+      const lines = content.toString("utf-8").split("\n");
+
+      // One match past maxResults tells the caller the results are truncated.
+      for (let lineNum = 0; lineNum < lines.length && results.length <= maxResults; lineNum++) {
+        const line = lines[lineNum]!;
+        const columns = matchLine(line);
+
+        if (columns) {
+          const startLine = Math.max(0, lineNum - linesBefore);
+          const endLine = Math.min(lines.length - 1, lineNum + linesAfter);
+
+          let contextContent: string | null = null;
+          if (linesBefore > 0 || linesAfter > 0) {
+            contextContent = lines.slice(startLine, endLine + 1).join("\n");
           }
+
+          results.push({
+            file,
+            line: lineNum + 1,
+            match: line,
+            content: contextContent,
+            columns,
+          });
         }
-      } catch {
-        // Ignore files that cannot be read due to permissions or transient errors
       }
+    } catch (error) {
+      // A file removed since the directory walk was simply not there to search.
+      if (error instanceof FileAccessError ? error.reason === "notFound" : (error as { code?: string }).code === "ENOENT") return { file, results };
+      return { file, results, skipped: "unreadable" };
     }
 
-    return results;
+    return { file, results };
   }
 
   async *getDirectoryTree(dir: string, { ignoreFilter, recursive = true }: DirectoryTreeOptions): AsyncGenerator<string> {
+    await this.pathGuard.assert(dir, "read");
+    const gitIgnore = await this.gitIgnoreFor(dir);
+    yield* this.walkDirectoryTree(dir, ignoreFilter, recursive ? Number.POSITIVE_INFINITY : 1, gitIgnore);
+  }
+
+  /** Yield entries up to maxDepth levels below dir (1 = its own entries), directories with a trailing slash. */
+  private async *walkDirectoryTree(
+    dir: string,
+    ignoreFilter: (path: string) => boolean,
+    maxDepth: number,
+    gitIgnore: GitIgnoreFilter | undefined,
+  ): AsyncGenerator<string> {
     const items = await fs.readdir(dir, { withFileTypes: true });
 
     for (const item of items) {
       const itemPath = path.join(dir, item.name);
       if (ignoreFilter(itemPath)) continue;
+      // Checked before descending, so ignored directories are never read.
+      if (await gitIgnore?.isIgnored(itemPath, item.isDirectory())) continue;
 
       if (item.isDirectory()) {
         yield `${itemPath}/`;
-        if (recursive) {
-          yield* this.getDirectoryTree(itemPath, { ignoreFilter });
+        if (maxDepth > 1) {
+          yield* this.walkDirectoryTree(itemPath, ignoreFilter, maxDepth - 1, gitIgnore);
         }
       } else {
         yield itemPath;
       }
     }
   }
+
+  /**
+   * List a directory as structured entries, depth-first with each directory yielded before its contents.
+   */
+  async *listDirectory(dir: string, options: ListDirectoryOptions): AsyncGenerator<DirectoryEntry> {
+    await this.pathGuard.assert(dir, "read");
+    const { ignoreFilter, maxDepth = Number.POSITIVE_INFINITY, followSymlinks = false, sort = "name" } = options;
+    const gitIgnore = await this.gitIgnoreFor(dir);
+
+    const rootStats = await fs.stat(dir);
+    yield* this.walkDirectoryEntries(dir, 1, new Set([`${rootStats.dev}:${rootStats.ino}`]), {
+      ignoreFilter,
+      maxDepth,
+      followSymlinks,
+      sort,
+      gitIgnore,
+    });
+  }
+
+  private async *walkDirectoryEntries(
+    dir: string,
+    depth: number,
+    ancestors: Set<string>,
+    options: {
+      ignoreFilter: (path: string) => boolean;
+      maxDepth: number;
+      followSymlinks: boolean;
+      sort: NonNullable<ListDirectoryOptions["sort"]>;
+      gitIgnore: GitIgnoreFilter | undefined;
+    },
+  ): AsyncGenerator<DirectoryEntry> {
+    const { ignoreFilter, maxDepth, followSymlinks, sort, gitIgnore } = options;
+    const entries: Array<{ entry: DirectoryEntry; stats: fs.Stats }> = [];
+
+    for (const name of await fs.readdir(dir)) {
+      const itemPath = path.join(dir, name);
+      if (ignoreFilter(itemPath)) continue;
+
+      let stats: fs.Stats;
+      try {
+        stats = await fs.lstat(itemPath);
+      } catch {
+        // removed between readdir and lstat
+        continue;
+      }
+
+      let symlinkTarget: string | undefined;
+      const isSymbolicLink = stats.isSymbolicLink();
+      if (isSymbolicLink) {
+        symlinkTarget = await fs.readlink(itemPath).catch(() => undefined);
+        if (followSymlinks && (await this.pathGuard.allows(itemPath, "read"))) {
+          stats = await fs.stat(itemPath).catch(() => stats);
+        }
+      }
+
+      const type = stats.isSymbolicLink() ? "symlink" : stats.isDirectory() ? "directory" : stats.isFile() ? "file" : "other";
+      if (await gitIgnore?.isIgnored(itemPath, type === "directory")) continue;
+
+      entries.push({
+        entry: {
+          path: itemPath,
+          name,
+          depth,
+          type,
+          isSymbolicLink,
+          size: stats.size,
+          modified: stats.mtime,
+          ...(symlinkTarget !== undefined && { symlinkTarget }),
+        },
+        stats,
+      });
+    }
+
+    if (sort === "name") entries.sort((a, b) => (a.entry.name < b.entry.name ? -1 : a.entry.name > b.entry.name ? 1 : 0));
+    else if (sort === "size") entries.sort((a, b) => b.entry.size - a.entry.size);
+    else if (sort === "mtime") entries.sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs);
+
+    for (const { entry, stats } of entries) {
+      yield entry;
+      if (entry.type !== "directory" || depth >= maxDepth) continue;
+
+      // Only a followed symlink can lead back to an ancestor, but checking every directory is cheap.
+      const key = `${stats.dev}:${stats.ino}`;
+      if (ancestors.has(key)) continue;
+      ancestors.add(key);
+      try {
+        yield* this.walkDirectoryEntries(entry.path, depth + 1, ancestors, options);
+      } finally {
+        ancestors.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Total the size of a file or tree the way du does: symlinks are not followed, a file with several hard
+   * links counts once, and paths excluded by the ignore filter (or gitignore rules, with respectGitignore)
+   * are left out along with everything below them. Unreadable directories count only themselves.
+   */
+  async diskUsage(target: string, options: DiskUsageOptions): Promise<DiskUsage> {
+    await this.pathGuard.assert(target, "read");
+    const { ignoreFilter, breakdownDepth = 1, oneFilesystem = false } = options;
+    const rootStats = await fs.lstat(target);
+    return this.measureDiskUsage(target, rootStats, 0, {
+      ignoreFilter,
+      breakdownDepth,
+      device: oneFilesystem ? rootStats.dev : undefined,
+      gitIgnore: await this.gitIgnoreFor(rootStats.isDirectory() ? target : path.dirname(target)),
+      seenLinks: new Set(),
+    });
+  }
+
+  private async measureDiskUsage(
+    itemPath: string,
+    stats: fs.Stats,
+    depth: number,
+    context: {
+      ignoreFilter: (path: string) => boolean;
+      breakdownDepth: number;
+      device: number | undefined;
+      gitIgnore: GitIgnoreFilter | undefined;
+      seenLinks: Set<string>;
+    },
+  ): Promise<DiskUsage> {
+    const usage: DiskUsage = { path: itemPath, size: 0, allocated: 0, files: 0, directories: 0 };
+    if (!stats.isDirectory()) {
+      if (stats.nlink > 1) {
+        const key = `${stats.dev}:${stats.ino}`;
+        if (context.seenLinks.has(key)) return usage;
+        context.seenLinks.add(key);
+      }
+      return { ...usage, size: stats.size, allocated: stats.blocks * 512, files: 1 };
+    }
+
+    usage.size = stats.size;
+    usage.allocated = stats.blocks * 512;
+    usage.directories = 1;
+
+    let names: string[];
+    try {
+      names = await fs.readdir(itemPath);
+    } catch {
+      return usage;
+    }
+
+    const children: DiskUsage[] = [];
+    for (const name of names) {
+      const childPath = path.join(itemPath, name);
+      if (context.ignoreFilter(childPath)) continue;
+
+      let childStats: fs.Stats;
+      try {
+        childStats = await fs.lstat(childPath);
+      } catch {
+        // removed between readdir and lstat
+        continue;
+      }
+      if (await context.gitIgnore?.isIgnored(childPath, childStats.isDirectory())) continue;
+      if (context.device !== undefined && childStats.isDirectory() && childStats.dev !== context.device) continue;
+
+      const child = await this.measureDiskUsage(childPath, childStats, depth + 1, context);
+      usage.size += child.size;
+      usage.allocated += child.allocated;
+      usage.files += child.files;
+      usage.directories += child.directories;
+      children.push(child);
+    }
+
+    if (depth < context.breakdownDepth) usage.children = children.sort((a, b) => b.allocated - a.allocated || b.size - a.size);
+    return usage;
+  }
+
+  /** Size and free space of the filesystem holding a path, as reported by statfs. */
+  async filesystemCapacity(target: string): Promise<FilesystemCapacity> {
+    await this.pathGuard.assert(target, "read");
+    const { bsize, blocks, bfree, bavail, files, ffree } = await statfs(target);
+    return {
+      total: blocks * bsize,
+      used: (blocks - bfree) * bsize,
+      free: bfree * bsize,
+      available: bavail * bsize,
+      blockSize: bsize,
+      totalInodes: files,
+      freeInodes: ffree,
+    };
+  }
+
+  /** Combine the caller's ignore filter with gitignore rules, when respectGitignore is on. */
+  private withGitIgnore(gitIgnore: GitIgnoreFilter | undefined, ignoreFilter: (path: string) => boolean): (path: string) => Promise<boolean> {
+    return async filePath => {
+      if (ignoreFilter(filePath)) return true;
+      return gitIgnore ? gitIgnore.isIgnored(filePath) : false;
+    };
+  }
+
+  private async gitIgnoreFor(dir: string): Promise<GitIgnoreFilter | undefined> {
+    return this.options.respectGitignore ? GitIgnoreFilter.forDirectory(dir) : undefined;
+  }
 }
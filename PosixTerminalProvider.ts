@@ -1,3 +1,6 @@
+import { randomBytes } from "node:crypto";
+import os from "node:os";
+import path from "node:path";
 import { setTimeout as delay } from "node:timers/promises";
 import type TokenRingApp from "@tokenring-ai/app";
 import type { TerminalService } from "@tokenring-ai/terminal";
@@ -13,11 +16,9 @@ import type {
 } from "@tokenring-ai/terminal/TerminalProvider";
 import formatLogMessages from "@tokenring-ai/utility/string/formatLogMessage";
 import { which } from "bun";
+import OutputBuffer from "./OutputBuffer.ts";
 import type { PosixTerminalProviderOptions } from "./schema.ts";
 
-const textDecoder = new TextDecoder();
-const MAX_OUTPUT_BYTES = 1024 * 1024;
-
 interface InteractiveTerminalSession {
   id: string;
   process: Bun.Subprocess;
@@ -27,11 +28,87 @@ interface InteractiveTerminalSession {
   write: (data: string) => void;
   /** Releases the session's stdio (pty handle or stdin sink). */
   closeIO: () => void;
-  outputBuffer: string;
+  output: OutputBuffer;
   lastReadPosition: number;
   startTime: number;
   lastOutputTime: number;
   exitCode?: number | undefined;
+  /** Woken whenever output arrives or the process exits. */
+  outputWaiters: Set<() => void>;
+}
+
+export type PosixOutputWaitOptions = OutputWaitOptions & {
+  /** Return as soon as the new output matches, e.g. a REPL prompt. Settling is then not enough to return. */
+  pattern?: RegExp | string | undefined;
+  /** Only return once the process exits (or maxInterval passes). */
+  untilExit?: boolean | undefined;
+};
+
+/** Why waitForOutput returned. */
+export type OutputWaitReason = "settled" | "match" | "exit" | "timeout";
+
+/**
+ * Positions are character offsets from the start of the session and stay valid as old output is
+ * discarded. When fromPosition has been discarded, output starts at the oldest retained character.
+ */
+export type PosixInteractiveTerminalOutput = InteractiveTerminalOutput & {
+  /** Whether output between fromPosition and the returned output was discarded. */
+  evicted: boolean;
+  /** How many characters were discarded. */
+  evictedLength: number;
+  /** A single read returns at most sessionOutputRetention characters; collect again from newPosition for the rest. */
+  hasMore: boolean;
+};
+
+export type WaitedTerminalOutput = PosixInteractiveTerminalOutput & {
+  reason: OutputWaitReason;
+  /** The text that matched the pattern, when reason is "match". */
+  match?: string | undefined;
+};
+
+export type OutputStreamName = "stdout" | "stderr";
+
+/** A chunk of command output in the order it arrived, with the time (ms since the epoch) it was read. */
+export type OutputTimelineEntry = { stream: OutputStreamName; text: string; timestamp: number };
+
+export type CommandOutputStreams = {
+  /** Everything the command wrote to stdout, untrimmed. */
+  stdout: string;
+  /** Everything the command wrote to stderr, untrimmed. */
+  stderr: string;
+  /** stdout and stderr chunks interleaved in arrival order. */
+  timeline: OutputTimelineEntry[];
+  /** Bytes cut from the middle of the output to stay within maxCommandOutputBytes in "truncate" mode. */
+  droppedBytes: number;
+};
+
+export type PosixExecuteCommandOptions = ExecuteCommandOptions & {
+  /** Called with each chunk of output as it is read, while the command runs. */
+  onOutput?: ((entry: OutputTimelineEntry) => void) | undefined;
+  /** Also forward each chunk to app.serviceOutput so the UI shows the command's progress live. */
+  streamOutput?: boolean | undefined;
+};
+
+type WithOutputStreams<T> = T extends { output: string } ? T & CommandOutputStreams : T;
+
+/** ExecuteCommandResult where every result that has output also carries the separate streams. */
+export type PosixExecuteCommandResult = WithOutputStreams<ExecuteCommandResult>;
+
+function readSessionOutput(session: InteractiveTerminalSession, fromPosition: number): PosixInteractiveTerminalOutput {
+  const { text, end, evictedLength } = session.output.read(fromPosition);
+  return {
+    output: text,
+    newPosition: end,
+    hasMore: end < session.output.end,
+    isComplete: session.exitCode !== undefined,
+    exitCode: session.exitCode,
+    evicted: evictedLength > 0,
+    evictedLength,
+  };
+}
+
+function wakeWaiters(session: InteractiveTerminalSession): void {
+  for (const wake of [...session.outputWaiters]) wake();
 }
 
 /**
@@ -58,8 +135,16 @@ async function pumpStream(stream: ReadableStream<Uint8Array>, onText: (text: str
   }
 }
 
+/** Split text after its first `bytes` UTF-8 bytes, moving forward to the next character boundary. */
+function splitAtByte(text: string, bytes: number): [string, string] {
+  const encoded = Buffer.from(text);
+  let cut = Math.min(bytes, encoded.length);
+  while (cut < encoded.length && (encoded[cut]! & 0xc0) === 0x80) cut++;
+  return [encoded.subarray(0, cut).toString(), encoded.subarray(cut).toString()];
+}
+
 /**
- * Spawn a non-interactive command with timeout and combined stdout/stderr.
+ * Spawn a non-interactive command with timeout, capturing stdout and stderr separately and in arrival order.
  * Uses a detached process group so timeout kills child processes (e.g. sleep in a shell script).
  */
 async function spawnCommand(
@@ -69,10 +154,43 @@ async function spawnCommand(
     cwd?: string;
     env?: Record<string, string | undefined>;
     timeoutMs: number;
+    maxOutputBytes: number;
+    /** "kill" stops the process tree at maxOutputBytes; "truncate" keeps draining it, retaining the head and tail. */
+    overflow: "kill" | "truncate";
+    onOutput?: ((entry: OutputTimelineEntry) => void) | undefined;
   },
-): Promise<{ exitCode: number; output: string; timedOut: boolean }> {
+): Promise<CommandOutputStreams & { exitCode: number; output: string; timedOut: boolean }> {
   let timedOut = false;
   let outputBytes = 0;
+  const head: OutputTimelineEntry[] = [];
+  const tail: OutputTimelineEntry[] = [];
+  let headBytes = 0;
+  let tailBytes = 0;
+  let droppedBytes = 0;
+  const headLimit = options.overflow === "truncate" ? Math.floor(options.maxOutputBytes / 2) : Infinity;
+  const tailLimit = options.maxOutputBytes - headLimit;
+
+  // Fill the head first, then keep only the newest tailLimit bytes after it.
+  const retain = (entry: OutputTimelineEntry) => {
+    let text = entry.text;
+    if (headBytes < headLimit) {
+      const [kept, rest] = splitAtByte(text, headLimit - headBytes);
+      if (kept) head.push({ ...entry, text: kept });
+      headBytes += Buffer.byteLength(kept);
+      text = rest;
+      if (!text) return;
+    }
+    tail.push({ ...entry, text });
+    tailBytes += Buffer.byteLength(text);
+    while (tailBytes > tailLimit) {
+      const oldest = tail[0]!;
+      const [dropped, kept] = splitAtByte(oldest.text, tailBytes - tailLimit);
+      if (kept) tail[0] = { ...oldest, text: kept };
+      else tail.shift();
+      tailBytes -= Buffer.byteLength(dropped);
+      droppedBytes += Buffer.byteLength(dropped);
+    }
+  };
 
   const proc = Bun.spawn([command, ...args], {
     ...(options.cwd !== undefined ? { cwd: options.cwd } : {}),
@@ -104,17 +222,28 @@ async function spawnCommand(
         }, options.timeoutMs)
       : undefined;
 
-  const readStream = async (stream: ReadableStream<Uint8Array>): Promise<string> => {
+  const readStream = async (stream: ReadableStream<Uint8Array>, name: OutputStreamName): Promise<void> => {
+    // Streaming decode so multi-byte characters split across chunks survive
+    const decoder = new TextDecoder();
     const reader = stream.getReader();
-    const chunks: Uint8Array[] = [];
+    const record = (chunk: string) => {
+      if (!chunk) return;
+      const entry: OutputTimelineEntry = { stream: name, text: chunk, timestamp: Date.now() };
+      retain(entry);
+      try {
+        options.onOutput?.(entry);
+      } catch {
+        // a failing listener must not stop the pipes from draining
+      }
+    };
     try {
       for (;;) {
         const result = await reader.read();
         if (result.done) break;
         const value = result.value;
         outputBytes += value.byteLength;
-        chunks.push(value);
-        if (outputBytes > MAX_OUTPUT_BYTES) {
+        record(decoder.decode(value, { stream: true }));
+        if (options.overflow === "kill" && outputBytes > options.maxOutputBytes) {
           killTree();
           break;
         }
@@ -128,35 +257,51 @@ async function spawnCommand(
         // ignore
       }
     }
-    if (chunks.length === 0) return "";
-    const merged = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
-    let offset = 0;
-    for (const chunk of chunks) {
-      merged.set(chunk, offset);
-      offset += chunk.byteLength;
-    }
-    return textDecoder.decode(merged);
+    record(decoder.decode());
   };
 
   try {
     // stdout/stderr are ReadableStreams because we requested "pipe"
-    const [stdout, stderr, exitCode] = await Promise.all([
-      readStream(proc.stdout as ReadableStream<Uint8Array>),
-      readStream(proc.stderr as ReadableStream<Uint8Array>),
+    const [, , exitCode] = await Promise.all([
+      readStream(proc.stdout as ReadableStream<Uint8Array>, "stdout"),
+      readStream(proc.stderr as ReadableStream<Uint8Array>, "stderr"),
       proc.exited,
     ]);
 
-    const output = [stdout, stderr].filter(Boolean).join("\n").trim();
+    const timeline = [...head, ...tail];
+    const streamText = (name: OutputStreamName) =>
+      timeline
+        .filter(entry => entry.stream === name)
+        .map(entry => entry.text)
+        .join("");
+    const stdout = streamText("stdout");
+    const stderr = streamText("stderr");
+    // With the middle cut out, keep arrival order so the marker sits where the gap is.
+    const joinText = (entries: OutputTimelineEntry[]) => entries.map(entry => entry.text).join("");
+    const output =
+      droppedBytes > 0
+        ? `${joinText(head)}\n[... ${droppedBytes} bytes truncated ...]\n${joinText(tail)}`.trim()
+        : [stdout, stderr].filter(Boolean).join("\n").trim();
     return {
       exitCode,
       output,
       timedOut,
+      stdout,
+      stderr,
+      timeline,
+      droppedBytes,
     };
   } finally {
     if (timer) clearTimeout(timer);
   }
 }
 
+function toCommandResult({ exitCode, timedOut, output, ...streams }: Awaited<ReturnType<typeof spawnCommand>>): PosixExecuteCommandResult {
+  if (timedOut) return { status: "timeout", output, ...streams };
+  if (exitCode === 0) return { status: "success", output, exitCode: 0, ...streams };
+  return { status: "badExitCode", output, exitCode, ...streams };
+}
+
 export default class PosixTerminalProvider implements InteractiveTerminalProvider {
   readonly isInteractive = true;
   readonly name = "PosixTerminalProvider";
@@ -201,49 +346,39 @@ export default class PosixTerminalProvider implements InteractiveTerminalProvide
     this.displayName = `PosixTerminalProvider (sandboxProvider: ${this.sandboxProvider})`;
   }
 
-  async executeCommand(command: string, args: string[], options: ExecuteCommandOptions): Promise<ExecuteCommandResult> {
+  async executeCommand(command: string, args: string[], options: PosixExecuteCommandOptions): Promise<PosixExecuteCommandResult> {
     const { timeoutSeconds, workingDirectory: cwd } = options;
     const wrapped = this.wrapWithIsolation(command, args, options);
+    const listener = this.outputListener("[executeCommand]", options);
 
     try {
       const result = await spawnCommand(wrapped.command, wrapped.args, {
         cwd,
         env: process.env,
         timeoutMs: timeoutSeconds * 1000,
+        maxOutputBytes: this.options.maxCommandOutputBytes,
+        overflow: this.options.commandOutputOverflow,
+        onOutput: listener.onOutput,
       });
 
-      if (result.timedOut) {
-        return {
-          status: "timeout",
-          output: result.output,
-        };
-      }
-      if (result.exitCode === 0) {
-        return {
-          status: "success",
-          output: result.output,
-          exitCode: 0,
-        };
-      }
-      return {
-        status: "badExitCode",
-        output: result.output,
-        exitCode: result.exitCode,
-      };
+      return toCommandResult(result);
     } catch (err) {
       return {
         status: "unknownError",
         error: formatLogMessages([err as Error]),
       };
+    } finally {
+      listener.flush();
     }
   }
 
-  async runScript(script: string, options: ExecuteCommandOptions): Promise<ExecuteCommandResult> {
+  async runScript(script: string, options: PosixExecuteCommandOptions): Promise<PosixExecuteCommandResult> {
     const { timeoutSeconds, workingDirectory: cwd } = options;
     const shell = process.env.SHELL || "/bin/bash";
     const wrapped = this.wrapWithIsolation(shell, ["-c", script], options);
 
     this.app.serviceOutput(this.terminalService, "[runScript]", "spawning shell:", wrapped.command, " ", wrapped.args.join(" "), "in:", cwd);
+    const listener = this.outputListener("[runScript]", options);
 
     try {
       const result = await spawnCommand(wrapped.command, wrapped.args, {
@@ -254,34 +389,53 @@ export default class PosixTerminalProvider implements InteractiveTerminalProvide
           NO_COLOR: "1",
         },
         timeoutMs: timeoutSeconds * 1000,
+        maxOutputBytes: this.options.maxCommandOutputBytes,
+        overflow: this.options.commandOutputOverflow,
+        onOutput: listener.onOutput,
       });
 
-      if (result.timedOut) {
-        return {
-          status: "timeout",
-          output: result.output,
-        };
-      }
-      if (result.exitCode === 0) {
-        return {
-          status: "success",
-          output: result.output,
-          exitCode: 0,
-        };
-      }
-      return {
-        status: "badExitCode",
-        output: result.output,
-        exitCode: result.exitCode,
-      };
+      return toCommandResult(result);
     } catch (err) {
       return {
         status: "unknownError",
         error: formatLogMessages([err as Error]),
       };
+    } finally {
+      listener.flush();
     }
   }
 
+  /**
+   * The chunk listener for a command: the caller's onOutput gets every chunk as read, and with streamOutput,
+   * serviceOutput gets each stream's complete lines. Call flush once the command ends to send unterminated last lines.
+   */
+  private outputListener(
+    label: string,
+    { onOutput, streamOutput }: PosixExecuteCommandOptions,
+  ): { onOutput: ((entry: OutputTimelineEntry) => void) | undefined; flush: () => void } {
+    if (!streamOutput) return { onOutput, flush: () => {} };
+
+    const maxPartialLine = 64 * 1024;
+    const partialLines: Record<OutputStreamName, string> = { stdout: "", stderr: "" };
+    const send = (stream: OutputStreamName, lines: string) => this.app.serviceOutput(this.terminalService, label, `${stream}:`, lines);
+    return {
+      onOutput: entry => {
+        const buffered = partialLines[entry.stream] + entry.text;
+        // A line that never ends (e.g. a progress bar redrawn with \r) is forwarded once it grows past the cap
+        const end = buffered.length > maxPartialLine ? buffered.length : buffered.lastIndexOf("\n");
+        partialLines[entry.stream] = buffered.slice(end + 1);
+        if (end !== -1) send(entry.stream, buffered.slice(0, end));
+        onOutput?.(entry);
+      },
+      flush: () => {
+        for (const stream of ["stdout", "stderr"] as const) {
+          if (partialLines[stream]) send(stream, partialLines[stream]);
+          partialLines[stream] = "";
+        }
+      },
+    };
+  }
+
   async startInteractiveSession(options: InteractiveTerminalOptions): Promise<string> {
     const id = `term-${this.nextId++}`;
     const cwd = options.workingDirectory;
@@ -312,20 +466,31 @@ export default class PosixTerminalProvider implements InteractiveTerminalProvide
         throw new Error(`Session ${id} is not ready`);
       },
       closeIO: () => {},
-      outputBuffer: "",
+      output: new OutputBuffer(
+        this.options.sessionOutputRetention,
+        this.options.spillSessionOutput
+          ? {
+              path: path.join(os.tmpdir(), `posix-terminal-${process.pid}-${id}-${randomBytes(4).toString("hex")}.log`),
+              maxSpilled: this.options.maxSpilledSessionOutput,
+            }
+          : undefined,
+      ),
       lastReadPosition: 0,
       startTime: Date.now(),
       lastOutputTime: Date.now(),
+      outputWaiters: new Set(),
     };
 
     const appendOutput = (text: string) => {
-      session.outputBuffer += text;
+      session.output.append(text);
       session.lastOutputTime = Date.now();
+      wakeWaiters(session);
     };
 
     const onExit = (_subprocess: Bun.Subprocess, exitCode: number | null) => {
       // exitCode is null when killed by signal; mark complete either way
       session.exitCode = exitCode ?? 0;
+      wakeWaiters(session);
     };
 
     if (usePty) {
@@ -435,20 +600,64 @@ export default class PosixTerminalProvider implements InteractiveTerminalProvide
     session.terminal.resize(cols, rows);
   }
 
-  collectOutput(sessionId: string, fromPosition: number, _waitOptions: OutputWaitOptions): InteractiveTerminalOutput {
+  /**
+   * Return whatever output has arrived since fromPosition, without waiting. This is the
+   * InteractiveTerminalProvider method, which is synchronous, so waitOptions are not applied here: the
+   * waiting variant is PosixTerminalProvider.waitForOutput, which callers holding the interface reach by
+   * checking `provider instanceof PosixTerminalProvider`.
+   */
+  collectOutput(sessionId: string, fromPosition: number, _waitOptions: OutputWaitOptions): PosixInteractiveTerminalOutput {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error(`Session ${sessionId} not found`);
 
-    const output = session.outputBuffer.substring(fromPosition);
-    const newPosition = session.outputBuffer.length;
-    const isComplete = session.exitCode !== undefined;
+    return readSessionOutput(session, fromPosition);
+  }
 
-    return {
-      output,
-      newPosition,
-      isComplete,
-      exitCode: session.exitCode,
-    };
+  /**
+   * Wait for output after fromPosition, then return it like collectOutput. Returns when the output matches
+   * `pattern`, when the process exits, or, without a pattern or untilExit, once no output has arrived for
+   * settleInterval and at least minInterval has passed; an idle session therefore settles with empty output
+   * at minInterval rather than waiting out maxInterval. Gives up after maxInterval. Intervals are in seconds.
+   */
+  async waitForOutput(sessionId: string, fromPosition: number, waitOptions: PosixOutputWaitOptions): Promise<WaitedTerminalOutput> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+
+    const { minInterval, settleInterval, maxInterval, pattern, untilExit = false } = waitOptions;
+    const regex = typeof pattern === "string" ? new RegExp(pattern) : pattern;
+    const startedAt = Date.now();
+    const deadline = startedAt + maxInterval * 1000;
+    const earliestSettle = startedAt + minInterval * 1000;
+
+    for (;;) {
+      const result = this.collectOutput(sessionId, fromPosition, waitOptions);
+      const now = Date.now();
+
+      const match = regex ? result.output.match(regex)?.[0] : undefined;
+      if (match !== undefined) return { ...result, reason: "match", match };
+      if (result.isComplete) return { ...result, reason: "exit" };
+
+      const settlesAt = Math.max(earliestSettle, session.lastOutputTime + settleInterval * 1000);
+      const waitsToSettle = !regex && !untilExit;
+      if (waitsToSettle && now >= settlesAt) return { ...result, reason: "settled" };
+      if (now >= deadline) return { ...result, reason: "timeout" };
+
+      // Sleep until new output, exit, or the next moment one of the conditions could become true.
+      const wakeAt = waitsToSettle ? Math.min(deadline, settlesAt) : deadline;
+      await new Promise<void>(resolve => {
+        const wake = () => {
+          clearTimeout(timer);
+          session.outputWaiters.delete(wake);
+          resolve();
+        };
+        const timer = setTimeout(wake, Math.max(0, wakeAt - now));
+        session.outputWaiters.add(wake);
+      });
+      // terminateSession drops the session; report what was collected rather than "not found".
+      if (!this.sessions.has(sessionId)) {
+        return { ...readSessionOutput(session, fromPosition), isComplete: true, reason: "exit" };
+      }
+    }
   }
 
   terminateSession(sessionId: string) {
@@ -466,6 +675,9 @@ export default class PosixTerminalProvider implements InteractiveTerminalProvide
       // already closed
     }
     this.sessions.delete(sessionId);
+    wakeWaiters(session);
+    // Woken waiters read their output in a continuation; remove the spill file only after they have.
+    setImmediate(() => session.output.dispose());
   }
 
   getSessionStatus(sessionId: string): SessionStatus | null {
@@ -476,7 +688,7 @@ export default class PosixTerminalProvider implements InteractiveTerminalProvide
       id: session.id,
       running: session.exitCode === undefined,
       startTime: session.startTime,
-      outputLength: session.outputBuffer.length,
+      outputLength: session.output.end,
       exitCode: session.exitCode,
     };
   }
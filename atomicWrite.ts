@@ -0,0 +1,106 @@
+import { createHash, randomBytes } from "node:crypto";
+import path from "node:path";
+import fs from "fs-extra";
+
+export type PosixWriteFileOptions = {
+  /** Fail with a WriteConflictError unless the file's modification time still matches. */
+  expectedModified?: Date | number | undefined;
+  /** Fail with a WriteConflictError unless the file's SHA-256 (hex) still matches, as returned by hashFile. */
+  expectedHash?: string | undefined;
+};
+
+/** Thrown when a write precondition fails because the file changed since it was read. */
+export class WriteConflictError extends Error {
+  override readonly name = "WriteConflictError";
+
+  constructor(
+    readonly path: string,
+    readonly reason: "missing" | "modified" | "hash",
+  ) {
+    super(
+      reason === "missing"
+        ? `File ${path} was deleted since it was read`
+        : `File ${path} was modified since it was read (${reason === "hash" ? "content hash" : "modification time"} differs)`,
+    );
+  }
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Check the expected mtime/hash against the file on disk. This narrows, but cannot close, the window in
+ * which another writer can slip in before the rename lands.
+ */
+export async function assertWritePreconditions(filePath: string, { expectedModified, expectedHash }: PosixWriteFileOptions): Promise<void> {
+  if (expectedModified === undefined && expectedHash === undefined) return;
+
+  let stats: fs.Stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch (error) {
+    const { code } = error as { code?: string };
+    if (code === "ENOENT") throw new WriteConflictError(filePath, "missing");
+    throw error;
+  }
+
+  if (expectedModified !== undefined && stats.mtime.getTime() !== new Date(expectedModified).getTime()) {
+    throw new WriteConflictError(filePath, "modified");
+  }
+  if (expectedHash !== undefined && hashContent(await fs.readFile(filePath)) !== expectedHash.toLowerCase()) {
+    throw new WriteConflictError(filePath, "hash");
+  }
+}
+
+/**
+ * Write a file by writing a sibling temp file and renaming it into place, so readers never see a
+ * partially written file. Symlinks are written through rather than replaced. With preserveMetadata,
+ * an existing file's mode is carried over, as are its owner and group when the process may set them.
+ */
+export async function writeFileAtomic(filePath: string, content: string | Buffer, { preserveMetadata = true } = {}): Promise<void> {
+  let targetPath = filePath;
+  let existingStats: fs.Stats | undefined;
+  try {
+    targetPath = await fs.realpath(filePath);
+    existingStats = await fs.stat(targetPath);
+  } catch (error) {
+    const { code } = error as { code?: string };
+    if (code !== "ENOENT") throw error;
+  }
+
+  const dir = path.dirname(targetPath);
+  await fs.ensureDir(dir);
+
+  const tempPath = path.join(dir, `.${path.basename(targetPath)}.${randomBytes(6).toString("hex")}.tmp`);
+  try {
+    const fd = await fs.open(tempPath, "wx");
+    try {
+      await fs.writeFile(fd, content);
+      if (preserveMetadata && existingStats) {
+        await fs.fchmod(fd, existingStats.mode & 0o7777);
+        await preserveOwnership(fd, existingStats);
+      }
+      // Flush before the rename so a crash cannot leave the new name pointing at empty blocks.
+      await fs.fsync(fd);
+    } finally {
+      await fs.close(fd);
+    }
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.remove(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+async function preserveOwnership(fd: number, { uid, gid }: fs.Stats): Promise<void> {
+  const tempStats = await fs.fstat(fd);
+  if (tempStats.uid === uid && tempStats.gid === gid) return;
+  try {
+    await fs.fchown(fd, uid, gid);
+  } catch (error) {
+    const { code } = error as { code?: string };
+    // Only root may give a file away; an unprivileged process keeps ownership of what it writes.
+    if (code !== "EPERM") throw error;
+  }
+}
@@ -0,0 +1,176 @@
+import fs from "fs-extra";
+
+export type FileAccessFailure = "notFound" | "permissionDenied" | "isDirectory";
+
+/** Thrown when a file cannot be read because it is missing, not readable by this process, or a directory. */
+export class FileAccessError extends Error {
+  override readonly name = "FileAccessError";
+
+  constructor(
+    readonly path: string,
+    readonly reason: FileAccessFailure,
+  ) {
+    super(
+      reason === "notFound"
+        ? `File ${path} does not exist`
+        : reason === "permissionDenied"
+          ? `Permission denied reading ${path}`
+          : `Path ${path} is a directory, not a file`,
+    );
+  }
+}
+
+/** Translate the fs error for a failed read into a FileAccessError, or return it unchanged if it is some other failure. */
+export function toFileAccessError(filePath: string, error: unknown): unknown {
+  const { code } = error as { code?: string };
+  if (code === "ENOENT" || code === "ENOTDIR") return new FileAccessError(filePath, "notFound");
+  if (code === "EACCES" || code === "EPERM") return new FileAccessError(filePath, "permissionDenied");
+  if (code === "EISDIR") return new FileAccessError(filePath, "isDirectory");
+  return error;
+}
+
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "latin1";
+
+/** Byte offsets (end-exclusive) to read. A negative start counts back from the end of the file. */
+export type ByteRange = { start?: number | undefined; end?: number | undefined };
+
+export type ReadTextOptions = {
+  /** How to decode the file. "auto" (the default) uses a byte order mark, UTF-16 NUL patterns, or UTF-8 validity, falling back to Latin-1. */
+  encoding?: TextEncodingName | "auto" | undefined;
+  /** First line to return, 1-based. */
+  startLine?: number | undefined;
+  /** Last line to return, inclusive. */
+  endLine?: number | undefined;
+  /** Return only this many lines from the end of the file. Cannot be combined with startLine or endLine. */
+  tailLines?: number | undefined;
+};
+
+/** Decoded text along with the byte range of the file it came from, for follow-up reads. */
+export type TextReadResult = { text: string; encoding: TextEncodingName; start: number; end: number; size: number };
+
+/** How many leading bytes are inspected to detect an encoding. */
+export const ENCODING_SNIFF_BYTES = 4096;
+
+const LINE_SCAN_CHUNK_BYTES = 64 * 1024;
+
+/** The encoding of a file from its first bytes, and the length of its byte order mark. */
+export function detectTextEncoding(head: Buffer): { encoding: TextEncodingName; bomLength: number } {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return { encoding: "utf-8", bomLength: 3 };
+  if (head[0] === 0xff && head[1] === 0xfe) return { encoding: "utf-16le", bomLength: 2 };
+  if (head[0] === 0xfe && head[1] === 0xff) return { encoding: "utf-16be", bomLength: 2 };
+
+  // Mostly-ASCII UTF-16 without a BOM has a NUL in every other byte.
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let index = 0; index + 1 < head.length; index += 2) {
+    if (head[index] === 0) evenNuls++;
+    if (head[index + 1] === 0) oddNuls++;
+  }
+  const pairs = Math.floor(head.length / 2);
+  if (pairs > 0 && oddNuls > pairs * 0.4 && evenNuls < pairs * 0.05) return { encoding: "utf-16le", bomLength: 0 };
+  if (pairs > 0 && evenNuls > pairs * 0.4 && oddNuls < pairs * 0.05) return { encoding: "utf-16be", bomLength: 0 };
+
+  try {
+    // stream: true tolerates a character cut off at the end of the sample.
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return { encoding: "utf-8", bomLength: 0 };
+  } catch {
+    return { encoding: "latin1", bomLength: 0 };
+  }
+}
+
+export function decodeText(content: Buffer, encoding: TextEncodingName): string {
+  switch (encoding) {
+    case "utf-8":
+      return content.toString("utf-8");
+    case "utf-16le":
+      return content.subarray(0, content.length - (content.length % 2)).toString("utf16le");
+    case "utf-16be":
+      return Buffer.from(content.subarray(0, content.length - (content.length % 2)))
+        .swap16()
+        .toString("utf16le");
+    case "latin1":
+      return content.toString("latin1");
+  }
+}
+
+/** The bytes that end a line in the encoding; for UTF-16 they only count at even offsets. */
+function newlineOf(encoding: TextEncodingName): Buffer {
+  if (encoding === "utf-16le") return Buffer.from([0x0a, 0x00]);
+  if (encoding === "utf-16be") return Buffer.from([0x00, 0x0a]);
+  return Buffer.from([0x0a]);
+}
+
+function isNewlineAt(chunk: Buffer, index: number, newline: Buffer): boolean {
+  return chunk[index] === newline[0] && (newline.length === 1 || chunk[index + 1] === newline[1]);
+}
+
+export async function readBytes(fd: number, start: number, end: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(Math.max(0, end - start));
+  let offset = 0;
+  while (offset < buffer.length) {
+    const { bytesRead } = await fs.read(fd, buffer, offset, buffer.length - offset, start + offset);
+    if (bytesRead === 0) break;
+    offset += bytesRead;
+  }
+  return buffer.subarray(0, offset);
+}
+
+/** Throw unless each line option given is a positive integer and endLine does not come before startLine. */
+export function assertValidLineRange({ startLine, endLine, tailLines }: Pick<ReadTextOptions, "startLine" | "endLine" | "tailLines">): void {
+  for (const [name, value] of Object.entries({ startLine, endLine, tailLines })) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`${name} must be a positive integer, got ${value}`);
+    }
+  }
+  if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+    throw new Error(`endLine ${endLine} comes before startLine ${startLine}`);
+  }
+}
+
+/**
+ * Find the byte range holding the requested lines without reading the rest of the file: forwards
+ * from textStart for startLine/endLine, backwards from the end for tailLines. Ranges include the
+ * final line's newline.
+ */
+export async function findLineRange(
+  fd: number,
+  { size, textStart, encoding }: { size: number; textStart: number; encoding: TextEncodingName },
+  { startLine = 1, endLine, tailLines }: Pick<ReadTextOptions, "startLine" | "endLine" | "tailLines">,
+): Promise<{ start: number; end: number }> {
+  const newline = newlineOf(encoding);
+  const unit = newline.length;
+
+  if (tailLines !== undefined) {
+    // Keep UTF-16 code units aligned, and let a newline ending the file close the last line rather than start an empty one.
+    let scanEnd = size - ((size - textStart) % unit);
+    if (scanEnd - unit >= textStart && isNewlineAt(await readBytes(fd, scanEnd - unit, scanEnd), 0, newline)) scanEnd -= unit;
+
+    let found = 0;
+    for (let chunkEnd = scanEnd; chunkEnd > textStart; ) {
+      const chunkStart = Math.max(textStart, chunkEnd - LINE_SCAN_CHUNK_BYTES);
+      const chunk = await readBytes(fd, chunkStart, chunkEnd);
+      for (let index = chunk.length - unit; index >= 0; index -= unit) {
+        if (isNewlineAt(chunk, index, newline) && ++found === tailLines) {
+          return { start: chunkStart + index + unit, end: size };
+        }
+      }
+      chunkEnd = chunkStart;
+    }
+    return { start: textStart, end: size };
+  }
+
+  let line = 1;
+  let start = startLine <= 1 ? textStart : undefined;
+  for (let chunkStart = textStart; chunkStart < size; chunkStart += LINE_SCAN_CHUNK_BYTES) {
+    const chunk = await readBytes(fd, chunkStart, Math.min(size, chunkStart + LINE_SCAN_CHUNK_BYTES));
+    for (let index = 0; index + unit <= chunk.length; index += unit) {
+      if (!isNewlineAt(chunk, index, newline)) continue;
+      const lineEnd = chunkStart + index + unit;
+      if (line === endLine) return { start: start ?? lineEnd, end: lineEnd };
+      line++;
+      if (line === startLine) start = lineEnd;
+    }
+  }
+  return { start: start ?? size, end: size };
+}
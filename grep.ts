@@ -0,0 +1,111 @@
+import type { GrepOptions, GrepResult } from "@tokenring-ai/filesystem/FileSystemProvider";
+
+export type PosixGrepOptions = GrepOptions & {
+  /** Treat each search string as a JavaScript regular expression instead of a literal. */
+  regex?: boolean | undefined;
+  ignoreCase?: boolean | undefined;
+  /** Only match where the search string is bounded by non-word characters. */
+  wholeWord?: boolean | undefined;
+  /** Report the lines that do not match any search string. */
+  invert?: boolean | undefined;
+  /** Files larger than this many bytes are skipped. Defaults to the provider's grepMaxFileSize. */
+  maxFileSize?: number | undefined;
+  /** Stop searching once this many results have been found. Defaults to the provider's grepMaxResults. */
+  maxResults?: number | undefined;
+  /** Search files that look binary (contain a NUL byte near the start). Off by default. */
+  includeBinary?: boolean | undefined;
+};
+
+/** Zero-based, end-exclusive character offsets of a match within GrepResult.match. */
+export type GrepColumnRange = { start: number; end: number };
+
+export type PosixGrepResult = GrepResult & {
+  /** Highlight ranges for the matched text; empty for inverted matches. */
+  columns: GrepColumnRange[];
+};
+
+export type PosixGrepStreamOptions = PosixGrepOptions & {
+  /** How many files are read and searched at once. */
+  concurrency?: number | undefined;
+  signal?: AbortSignal | undefined;
+};
+
+/** "tooLarge" covers both maxFileSize and the provider's maxReadFileSize; "unreadable" is a permission or I/O error. */
+export type GrepSkipReason = "binary" | "tooLarge" | "unreadable";
+
+/** Whether a search stopped early at maxResults, and which files were passed over for being binary, too large or unreadable. */
+export type PosixGrepSummary = {
+  truncated: boolean;
+  skippedFiles: Array<{ file: string; reason: GrepSkipReason }>;
+};
+
+export type PosixGrepResults = PosixGrepResult[] & PosixGrepSummary;
+
+/** The outcome of searching a single file. */
+export type GrepFileScan = { file: string; results: PosixGrepResult[]; skipped?: GrepSkipReason };
+
+/** The number of leading bytes sniffed for a NUL byte, matching git's heuristic. */
+const BINARY_SNIFF_BYTES = 8000;
+
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Returns the column ranges that match in a line, or null when the line should not be reported.
+ */
+export type LineMatcher = (line: string) => GrepColumnRange[] | null;
+
+/**
+ * Whole-word bounds that only apply where the match itself has a word character, unlike \b, so search strings
+ * that start or end with punctuation (e.g. "-v", "$scope", "foo(") still match.
+ */
+const WORD_START = "(?:(?<!\\w)(?=\\w)|(?!\\w))";
+const WORD_END = "(?:(?<=\\w)(?!\\w)|(?<!\\w))";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function createLineMatcher(searchStrings: string[], options: Pick<PosixGrepOptions, "regex" | "ignoreCase" | "wholeWord" | "invert">): LineMatcher {
+  const { regex = false, ignoreCase = false, wholeWord = false, invert = false } = options;
+
+  const patterns = searchStrings
+    .filter(value => value)
+    .map(value => {
+      const source = regex ? value : escapeRegExp(value);
+      try {
+        return new RegExp(wholeWord ? `${WORD_START}(?:${source})${WORD_END}` : source, ignoreCase ? "gi" : "g");
+      } catch (error) {
+        throw new Error(`Invalid regular expression ${value}: ${(error as Error).message}`);
+      }
+    });
+
+  return line => {
+    const columns: GrepColumnRange[] = [];
+    for (const pattern of patterns) {
+      for (const match of line.matchAll(pattern)) {
+        // Zero-width matches (e.g. `^`) still mark the line as matching, but have nothing to highlight.
+        columns.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+
+    if (invert) return columns.length === 0 ? [] : null;
+    if (columns.length === 0) return null;
+    return mergeColumnRanges(columns);
+  };
+}
+
+function mergeColumnRanges(columns: GrepColumnRange[]): GrepColumnRange[] {
+  const sorted = columns.filter(({ start, end }) => end > start).sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: GrepColumnRange[] = [];
+  for (const range of sorted) {
+    const last = merged.at(-1);
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
@@ -1,2 +1,5 @@
+export { PathConfinementError } from "./PathGuard.ts";
 export { default as PosixFileSystemProvider } from "./PosixFileSystemProvider.ts";
 export { default as PosixTerminalProvider } from "./PosixTerminalProvider.ts";
+export { WriteConflictError } from "./atomicWrite.ts";
+export { FileAccessError } from "./fileRead.ts";
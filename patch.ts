@@ -0,0 +1,366 @@
+import { isBinaryContent } from "./grep.ts";
+import { detectLineEnding, type LineEnding } from "./textConventions.ts";
+
+export type PatchLine = { kind: " " | "-" | "+"; text: string };
+
+export type PatchHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: PatchLine[];
+  /** Set from "\ No newline at end of file" markers on the old and new side. */
+  oldMissingFinalNewline: boolean;
+  newMissingFinalNewline: boolean;
+};
+
+/** One file's section of a unified diff. A null path is /dev/null: the file is created or deleted. */
+export type FileDiff = { oldPath: string | null; newPath: string | null; hunks: PatchHunk[] };
+
+/** A search/replace edit block. An empty search against a missing file creates it with the replacement. */
+export type EditBlock = {
+  path: string;
+  search: string;
+  replace: string;
+  /** Replace every occurrence instead of rejecting a search that matches more than once. */
+  replaceAll?: boolean | undefined;
+};
+
+export type ApplyPatchOptions = {
+  /** Directory relative paths in the patch are resolved from. Defaults to the process working directory. */
+  cwd?: string | undefined;
+  /** How many leading and trailing context lines of a hunk may be ignored to find a match, as with patch -F. Defaults to 2. */
+  fuzz?: number | undefined;
+  /** Check every hunk without writing anything. */
+  dryRun?: boolean | undefined;
+};
+
+/** How one hunk or edit block fared. Lines are 1-based, in the file as it was before the patch. */
+export type HunkResult =
+  | {
+      index: number;
+      status: "applied";
+      line: number;
+      /** Lines between where the hunk said it applies and where it was found. */
+      offset: number;
+      /** Context lines that had to be ignored at each end. */
+      fuzz: number;
+      /** Whether lines only matched after ignoring whitespace differences. */
+      ignoredWhitespace: boolean;
+    }
+  | {
+      index: number;
+      status: "rejected";
+      reason: string;
+      /** Where the hunk expected to apply, when it said. */
+      expectedLine?: number | undefined;
+      /** The start of the region sharing the most lines with the hunk's context, to help fix it. */
+      closestLine?: number | undefined;
+    };
+
+export type FilePatchResult = {
+  path: string;
+  status: "modified" | "created" | "deleted" | "renamed" | "rejected";
+  previousPath?: string | undefined;
+  /** Why the file as a whole was rejected, e.g. it is missing or binary. */
+  reason?: string | undefined;
+  hunks: HunkResult[];
+};
+
+/** applied is false when anything was rejected, in which case no file was touched. */
+export type PatchResult = { applied: boolean; files: FilePatchResult[] };
+
+/** A text file split into lines, with what is needed to write it back the same way. */
+export type TextLines = { lines: string[]; finalNewline: boolean; lineEnding: LineEnding; bom: boolean };
+
+const UTF8_BOM = "\uFEFF";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const lines = diff.split(/\r?\n/);
+  const files: FileDiff[] = [];
+  let current: FileDiff | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+    if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+      current = { oldPath: parseDiffPath(line.slice(4)), newPath: parseDiffPath(lines[index + 1]!.slice(4)), hunks: [] };
+      stripGitPrefixes(current);
+      files.push(current);
+      index++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (!header) continue;
+    if (!current) throw new Error(`Invalid patch: hunk at line ${index + 1} has no file header`);
+
+    const hunk: PatchHunk = {
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+      oldMissingFinalNewline: false,
+      newMissingFinalNewline: false,
+    };
+
+    // Read exactly as many lines as the header announces, so removed lines such as "-- x" are not taken for headers.
+    let oldRemaining = hunk.oldLines;
+    let newRemaining = hunk.newLines;
+    while (oldRemaining > 0 || newRemaining > 0 || lines[index + 1]?.startsWith("\\")) {
+      const body = lines[++index];
+      if (body === undefined) throw new Error(`Invalid patch: hunk ${line} ends early`);
+      if (body.startsWith("\\")) {
+        const previous = hunk.lines.at(-1);
+        if (previous?.kind !== "+") hunk.oldMissingFinalNewline = true;
+        if (previous?.kind !== "-") hunk.newMissingFinalNewline = true;
+        continue;
+      }
+
+      // Some tools strip the trailing space from empty context lines.
+      const kind = body === "" ? " " : body[0];
+      if (kind !== " " && kind !== "-" && kind !== "+") throw new Error(`Invalid patch: unexpected line ${body} in hunk ${line}`);
+      hunk.lines.push({ kind, text: body.slice(1) });
+      if (kind !== "+") oldRemaining--;
+      if (kind !== "-") newRemaining--;
+      if (oldRemaining < 0 || newRemaining < 0) throw new Error(`Invalid patch: hunk ${line} has more lines than its header announces`);
+    }
+    current.hunks.push(hunk);
+  }
+
+  if (files.length === 0) throw new Error("Invalid patch: no file headers found");
+  return files;
+}
+
+function parseDiffPath(value: string): string | null {
+  // Drop a trailing timestamp, as written by diff -u.
+  const filePath = value.split("\t")[0]!.trim();
+  return filePath === "/dev/null" ? null : filePath;
+}
+
+/** git writes a/ and b/ in front of every path; only strip them when both sides agree that is what they are. */
+function stripGitPrefixes(file: FileDiff): void {
+  const { oldPath, newPath } = file;
+  if ((oldPath === null || oldPath.startsWith("a/")) && (newPath === null || newPath.startsWith("b/"))) {
+    file.oldPath = oldPath?.slice(2) ?? null;
+    file.newPath = newPath?.slice(2) ?? null;
+  }
+}
+
+/** Split file content into lines, or return null for binary content. */
+export function decodeTextLines(content: Buffer): TextLines | null {
+  if (isBinaryContent(content)) return null;
+
+  let text = content.toString("utf-8");
+  const bom = text.startsWith(UTF8_BOM);
+  if (bom) text = text.slice(1);
+  const lineEnding = detectLineEnding(text) ?? "\n";
+  const finalNewline = text === "" || text.endsWith("\n");
+  const lines = text === "" ? [] : text.replace(/\r?\n$/, "").split(/\r?\n/);
+  return { lines, finalNewline, lineEnding, bom };
+}
+
+export function encodeTextLines({ lines, finalNewline, lineEnding, bom }: TextLines): string {
+  if (lines.length === 0) return bom ? UTF8_BOM : "";
+  return (bom ? UTF8_BOM : "") + lines.join(lineEnding) + (finalNewline ? lineEnding : "");
+}
+
+function normalizeWhitespace(line: string): string {
+  return line.trim().replace(/\s+/g, " ");
+}
+
+function matchesAt(lines: string[], pattern: string[], start: number, ignoreWhitespace: boolean): boolean {
+  for (let index = 0; index < pattern.length; index++) {
+    const line = lines[start + index]!;
+    const expected = pattern[index]!;
+    if (ignoreWhitespace ? normalizeWhitespace(line) !== normalizeWhitespace(expected) : line !== expected) return false;
+  }
+  return true;
+}
+
+/** The match for pattern nearest to expected, searching no earlier than minStart. */
+function findNearest(lines: string[], pattern: string[], expected: number, minStart: number, ignoreWhitespace: boolean): number | null {
+  const maxStart = lines.length - pattern.length;
+  if (maxStart < minStart) return null;
+  const from = Math.min(Math.max(expected, minStart), maxStart);
+  for (let distance = 0; from - distance >= minStart || from + distance <= maxStart; distance++) {
+    if (from - distance >= minStart && matchesAt(lines, pattern, from - distance, ignoreWhitespace)) return from - distance;
+    if (distance > 0 && from + distance <= maxStart && matchesAt(lines, pattern, from + distance, ignoreWhitespace)) return from + distance;
+  }
+  return null;
+}
+
+/** The start of the window sharing the most (whitespace-insensitive) lines with pattern, if any line is shared. */
+function findClosest(lines: string[], pattern: string[]): number | undefined {
+  let best: { start: number; score: number } | undefined;
+  const normalizedPattern = pattern.map(normalizeWhitespace);
+  for (let start = 0; start <= Math.max(0, lines.length - pattern.length); start++) {
+    let score = 0;
+    for (let index = 0; index < pattern.length && start + index < lines.length; index++) {
+      if (normalizeWhitespace(lines[start + index]!) === normalizedPattern[index]) score++;
+    }
+    if (score > 0 && score > (best?.score ?? 0)) best = { start, score };
+  }
+  return best?.start;
+}
+
+/**
+ * Apply hunks in order. Each hunk is looked for at its stated position (adjusted by what earlier hunks
+ * added or removed), then at the nearest position where it matches exactly, then ignoring whitespace,
+ * then with up to fuzz context lines dropped from each end. A rejected hunk leaves the lines alone.
+ */
+export function applyHunks(text: TextLines, hunks: PatchHunk[], fuzz: number): { text: TextLines; results: HunkResult[] } {
+  const lines = [...text.lines];
+  let finalNewline = text.finalNewline;
+  const results: HunkResult[] = [];
+  // Shift between old line numbers and the lines array, and the first line a later hunk may touch.
+  let delta = 0;
+  let minStart = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const expected = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    const match = locateHunk(lines, hunk, expected, minStart, fuzz);
+    if (!match) {
+      const oldLines = hunk.lines.filter(line => line.kind !== "+").map(line => line.text);
+      const closest = oldLines.length > 0 ? findClosest(lines, oldLines) : undefined;
+      results.push({
+        index,
+        status: "rejected",
+        reason: oldLines.length > 0 ? "Context and removed lines were not found" : "Insertion point is outside the file",
+        expectedLine: hunk.oldStart,
+        closestLine: closest === undefined ? undefined : closest - delta + 1,
+      });
+      continue;
+    }
+
+    // Context lines keep the file's own text, so whitespace-insensitive matches do not rewrite them.
+    const { start, trimmed, ignoredWhitespace } = match;
+    const hunkLines = hunk.lines.slice(trimmed.head, hunk.lines.length - trimmed.tail);
+    const replacement: string[] = [];
+    let cursor = start;
+    for (const line of hunkLines) {
+      if (line.kind === " ") replacement.push(lines[cursor++]!);
+      else if (line.kind === "-") cursor++;
+      else replacement.push(line.text);
+    }
+    lines.splice(start, cursor - start, ...replacement);
+
+    if (start + replacement.length === lines.length && trimmed.tail === 0) {
+      if (hunk.newMissingFinalNewline) finalNewline = false;
+      else if (hunk.oldMissingFinalNewline) finalNewline = true;
+    }
+
+    // Report where the whole hunk, including any context fuzz dropped, lines up.
+    const hunkStart = start - trimmed.head;
+    results.push({
+      index,
+      status: "applied",
+      line: hunkStart - delta + 1,
+      offset: hunkStart - expected,
+      fuzz: Math.max(trimmed.head, trimmed.tail),
+      ignoredWhitespace,
+    });
+    delta += replacement.length - (cursor - start);
+    minStart = start + replacement.length;
+  }
+
+  return { text: { ...text, lines, finalNewline }, results };
+}
+
+function locateHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  expected: number,
+  minStart: number,
+  fuzz: number,
+): { start: number; trimmed: { head: number; tail: number }; ignoredWhitespace: boolean } | null {
+  const leadingContext = hunk.lines.findIndex(line => line.kind !== " ");
+  const trailingContext = [...hunk.lines].reverse().findIndex(line => line.kind !== " ");
+
+  for (let level = 0; level <= fuzz; level++) {
+    const head = Math.min(level, Math.max(0, leadingContext));
+    const tail = Math.min(level, Math.max(0, trailingContext));
+    if (level > 0 && head === 0 && tail === 0) break;
+
+    const pattern = hunk.lines
+      .slice(head, hunk.lines.length - tail)
+      .filter(line => line.kind !== "+")
+      .map(line => line.text);
+    if (pattern.length === 0) {
+      // A pure insertion with no context goes where the hunk says, if that is inside the file.
+      return expected >= minStart && expected <= lines.length ? { start: expected, trimmed: { head, tail }, ignoredWhitespace: false } : null;
+    }
+
+    for (const ignoredWhitespace of [false, true]) {
+      const start = findNearest(lines, pattern, expected + head, minStart, ignoredWhitespace);
+      if (start !== null) return { start, trimmed: { head, tail }, ignoredWhitespace };
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply search/replace blocks in order. A search is matched exactly first, then line by line ignoring
+ * whitespace; one that matches nowhere, or more than once without replaceAll, is rejected.
+ */
+export function applyEditBlocks(text: TextLines, edits: EditBlock[]): { text: TextLines; results: HunkResult[] } {
+  let content = text.lines.join("\n") + (text.finalNewline && text.lines.length > 0 ? "\n" : "");
+  const results: HunkResult[] = [];
+
+  for (const [index, edit] of edits.entries()) {
+    const search = edit.search.replace(/\r\n/g, "\n");
+    const replace = edit.replace.replace(/\r\n/g, "\n");
+    if (search === "") {
+      results.push({ index, status: "rejected", reason: "Search text is empty" });
+      continue;
+    }
+
+    const occurrences: number[] = [];
+    for (let at = content.indexOf(search); at !== -1; at = content.indexOf(search, at + search.length)) occurrences.push(at);
+
+    if (occurrences.length > 0) {
+      if (occurrences.length > 1 && !edit.replaceAll) {
+        const matchLines = occurrences.map(at => lineNumberAt(content, at)).join(", ");
+        results.push({ index, status: "rejected", reason: `Search text matches ${occurrences.length} times (lines ${matchLines})` });
+        continue;
+      }
+      results.push({ index, status: "applied", line: lineNumberAt(content, occurrences[0]!), offset: 0, fuzz: 0, ignoredWhitespace: false });
+      content = edit.replaceAll ? content.split(search).join(replace) : content.replace(search, () => replace);
+      continue;
+    }
+
+    const lines = content.split("\n");
+    const searchLines = search.replace(/\n$/, "").split("\n");
+    const starts: number[] = [];
+    for (let start = 0; start + searchLines.length <= lines.length; start++) {
+      if (matchesAt(lines, searchLines, start, true)) starts.push(start);
+    }
+    if (starts.length === 0) {
+      const closest = findClosest(lines, searchLines);
+      results.push({ index, status: "rejected", reason: "Search text was not found", closestLine: closest === undefined ? undefined : closest + 1 });
+      continue;
+    }
+    if (starts.length > 1 && !edit.replaceAll) {
+      const matchLines = starts.map(start => start + 1).join(", ");
+      results.push({ index, status: "rejected", reason: `Search text matches ${starts.length} times ignoring whitespace (lines ${matchLines})` });
+      continue;
+    }
+
+    const replaceLines = replace.replace(/\n$/, "").split("\n");
+    for (const start of [...starts].reverse()) lines.splice(start, searchLines.length, ...(replace === "" ? [] : replaceLines));
+    results.push({ index, status: "applied", line: starts[0]! + 1, offset: 0, fuzz: 0, ignoredWhitespace: true });
+    content = lines.join("\n");
+  }
+
+  const finalNewline = content === "" ? text.finalNewline : content.endsWith("\n");
+  const lines = content === "" ? [] : content.replace(/\n$/, "").split("\n");
+  return { text: { ...text, lines, finalNewline }, results };
+}
+
+function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let index = content.indexOf("\n"); index !== -1 && index < offset; index = content.indexOf("\n", index + 1)) line++;
+  return line;
+}
@@ -0,0 +1,51 @@
+/**
+ * Render permission bits the way `ls -l` does, e.g. 0o4755 -> "rwsr-xr-x".
+ */
+export function formatPermissions(mode: number): string {
+  const triad = (bits: number, special: boolean, specialChar: string) => {
+    const execute = bits & 1 ? specialChar.toLowerCase() : specialChar.toUpperCase();
+    return `${bits & 4 ? "r" : "-"}${bits & 2 ? "w" : "-"}${special ? execute : bits & 1 ? "x" : "-"}`;
+  };
+
+  return (
+    triad((mode >> 6) & 7, (mode & 0o4000) !== 0, "s") +
+    triad((mode >> 3) & 7, (mode & 0o2000) !== 0, "s") +
+    triad(mode & 7, (mode & 0o1000) !== 0, "t")
+  );
+}
+
+const WHO_MASKS: Record<string, number> = { u: 0o4700, g: 0o2070, o: 0o1007 };
+
+/**
+ * Apply a chmod-style mode to the current mode. Accepts a number, an octal string ("755"),
+ * or comma-separated symbolic clauses ("+x", "u+x,go-w", "a=rX").
+ */
+export function applyModeChange(currentMode: number, change: number | string, isDirectory: boolean): number {
+  if (typeof change === "number") return change & 0o7777;
+  if (/^[0-7]{1,4}$/.test(change)) return parseInt(change, 8);
+
+  let mode = currentMode & 0o7777;
+  for (const clause of change.split(",")) {
+    const groups = /^(?<who>[ugoa]*)(?<operator>[-+=])(?<perms>[rwxXst]*)$/.exec(clause)?.groups;
+    if (!groups) throw new Error(`Invalid file mode ${change}`);
+    const { who = "", operator, perms = "" } = groups;
+
+    // As with chmod, an omitted "who" means "all".
+    const whoMask = (who === "" || who.includes("a") ? "ugo" : who).split("").reduce((mask, w) => mask | WHO_MASKS[w]!, 0);
+
+    let bits = 0;
+    if (perms.includes("r")) bits |= 0o444;
+    if (perms.includes("w")) bits |= 0o222;
+    if (perms.includes("x")) bits |= 0o111;
+    // X grants execute only to directories and files that are already executable by someone.
+    if (perms.includes("X") && (isDirectory || (currentMode & 0o111) !== 0)) bits |= 0o111;
+    if (perms.includes("s")) bits |= 0o6000;
+    if (perms.includes("t")) bits |= 0o1000;
+    bits &= whoMask;
+
+    if (operator === "+") mode |= bits;
+    else if (operator === "-") mode &= ~bits;
+    else mode = (mode & ~whoMask) | bits;
+  }
+  return mode;
+}
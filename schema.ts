@@ -1,7 +1,77 @@
 import type { ConfigFieldMeta } from "@tokenring-ai/app/config/metadata";
 import { z } from "zod";
 
-export const PosixFileSystemProviderOptionsSchema = z.object({});
+export const PosixFileSystemProviderOptionsSchema = z.object({
+  allowedRoots: z
+    .array(z.string())
+    .default([])
+    .meta({
+      description:
+        "Directories the provider may read and write. When set, any path resolving outside them (including via '..' or symlinks) is rejected. Leave empty for unrestricted access",
+    } satisfies ConfigFieldMeta),
+  readOnlyRoots: z
+    .array(z.string())
+    .default([])
+    .meta({ description: "Directories the provider may read but never write, even when nested inside an allowed root" } satisfies ConfigFieldMeta),
+  respectGitignore: z
+    .boolean()
+    .default(false)
+    .meta({
+      description:
+        "Apply .gitignore, .ignore and .git/info/exclude rules (including negations) in glob, grep, getDirectoryTree and watch, on top of the caller's ignore filter. Ignored directories are never read, and .git is always skipped",
+    } satisfies ConfigFieldMeta),
+  minDeletionDepth: z
+    .number()
+    .int()
+    .min(1)
+    .default(2)
+    .meta({
+      description: "deleteDirectory refuses any directory fewer than this many path segments below '/', e.g. 2 protects '/' and '/home'",
+    } satisfies ConfigFieldMeta),
+  journalDirectory: z
+    .string()
+    .optional()
+    .meta({
+      description:
+        "Directory where content replaced or removed by writeFile, deleteFile, deleteDirectory, rename and copy is snapshotted so the operation can be undone. Journaling is off when unset",
+    } satisfies ConfigFieldMeta),
+  journalMaxEntries: z
+    .number()
+    .int()
+    .min(1)
+    .default(100)
+    .meta({ description: "Oldest journal entries are discarded beyond this many" } satisfies ConfigFieldMeta),
+  maxReadFileSize: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .meta({ description: "Largest file, in bytes, that readFile will load. Unlimited when unset" } satisfies ConfigFieldMeta),
+  grepMaxFileSize: z
+    .number()
+    .int()
+    .min(1)
+    .default(10 * 1024 * 1024)
+    .meta({ description: "Files larger than this many bytes are skipped by grep" } satisfies ConfigFieldMeta),
+  preserveFileMetadata: z
+    .boolean()
+    .default(true)
+    .meta({
+      description: "Keep an existing file's permission bits and, where the process is permitted, its owner and group when rewriting it",
+    } satisfies ConfigFieldMeta),
+  preserveLineEndings: z
+    .boolean()
+    .default(false)
+    .meta({
+      description: "When writing or appending text to an existing file, convert line endings to the file's dominant style and keep its UTF-8 byte order mark",
+    } satisfies ConfigFieldMeta),
+  grepMaxResults: z
+    .number()
+    .int()
+    .min(1)
+    .default(10_000)
+    .meta({ description: "grep stops searching once it has found this many matching lines" } satisfies ConfigFieldMeta),
+});
 export type PosixFileSystemProviderOptions = z.output<typeof PosixFileSystemProviderOptionsSchema>;
 
 export const PosixTerminalProviderOptionsSchema = z.object({
@@ -32,6 +102,37 @@ export const PosixTerminalProviderOptionsSchema = z.object({
     .min(1)
     .default(30)
     .meta({ description: "Default pty height in rows" } satisfies ConfigFieldMeta),
+  sessionOutputRetention: z
+    .number()
+    .int()
+    .min(1)
+    .default(1024 * 1024)
+    .meta({ description: "Characters of each interactive session's output kept in memory; older output is discarded or spilled to disk" } satisfies ConfigFieldMeta),
+  spillSessionOutput: z
+    .boolean()
+    .default(false)
+    .meta({
+      description: "Write interactive session output that no longer fits in memory to a temporary file, so earlier positions can still be read",
+    } satisfies ConfigFieldMeta),
+  maxSpilledSessionOutput: z
+    .number()
+    .int()
+    .min(1)
+    .default(64 * 1024 * 1024)
+    .meta({ description: "Characters of each interactive session's output kept in its spill file; older output is overwritten" } satisfies ConfigFieldMeta),
+  maxCommandOutputBytes: z
+    .number()
+    .int()
+    .min(1)
+    .default(1024 * 1024)
+    .meta({ description: "Combined stdout and stderr bytes kept from a non-interactive command" } satisfies ConfigFieldMeta),
+  commandOutputOverflow: z
+    .enum(["kill", "truncate"])
+    .default("kill")
+    .meta({
+      description:
+        "What happens when a command exceeds maxCommandOutputBytes. 'kill' stops the command; 'truncate' lets it finish, keeping the first and last halves of the limit and dropping the middle",
+    } satisfies ConfigFieldMeta),
 });
 export type PosixTerminalProviderOptions = z.output<typeof PosixTerminalProviderOptionsSchema>;
 
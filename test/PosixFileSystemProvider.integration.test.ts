@@ -1,7 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 import path from "node:path";
 import fs from "fs-extra";
+import { PathConfinementError } from "../PathGuard";
 import PosixFileSystemProvider from "../PosixFileSystemProvider";
+import { WriteConflictError } from "../atomicWrite";
+import { FileAccessError } from "../fileRead";
+import { PosixFileSystemProviderOptionsSchema } from "../schema";
 
 type TestWatcher = {
   on(event: string, listener: (filePath: string) => void): TestWatcher;
@@ -94,6 +98,104 @@ describe("PosixFileSystemProvider Integration Tests", () => {
       expect(await service.exists(newPath)).toBe(true);
     });
 
+    it("should report permissions, ownership and link counts from stat", async () => {
+      const scriptPath = path.resolve(testDir, "run.sh");
+      fs.writeFileSync(scriptPath, "#!/bin/sh\n");
+      fs.chmodSync(scriptPath, 0o750);
+
+      const stats = await service.stat(scriptPath);
+      expect(stats.exists).toBe(true);
+      if (stats.exists) {
+        expect(stats.mode).toBe(0o750);
+        expect(stats.permissions).toBe("rwxr-x---");
+        expect(stats.uid).toBe(fs.statSync(scriptPath).uid);
+        expect(stats.linkCount).toBe(1);
+        expect(stats.isSymbolicLink).toBe(false);
+        expect(stats.symlinkTarget).toBeUndefined();
+      }
+    });
+
+    it("should describe symlinks and detect dangling ones", async () => {
+      const target = path.resolve(testDir, "target.txt");
+      fs.writeFileSync(target, "content");
+      fs.symlinkSync("target.txt", path.resolve(testDir, "link.txt"));
+      fs.symlinkSync("missing.txt", path.resolve(testDir, "broken.txt"));
+
+      const link = await service.stat(path.resolve(testDir, "link.txt"));
+      expect(link).toMatchObject({ exists: true, isSymbolicLink: true, isFile: true, size: 7, symlinkTarget: "target.txt", isDanglingSymlink: false });
+
+      const broken = await service.stat(path.resolve(testDir, "broken.txt"));
+      expect(broken).toMatchObject({ exists: true, isSymbolicLink: true, isFile: false, symlinkTarget: "missing.txt", isDanglingSymlink: true });
+    });
+
+    it("should create and read symlinks and hard links", async () => {
+      const target = path.resolve(testDir, "target.txt");
+      await service.writeFile(target, "content");
+
+      const link = path.resolve(testDir, "links", "link.txt");
+      await service.createSymlink("../target.txt", link);
+      expect(await service.readLink(link)).toBe("../target.txt");
+      expect((await service.readFile(link))?.toString("utf8")).toBe("content");
+      await expect(service.createSymlink("../target.txt", link)).rejects.toThrow(/already exists/);
+      await expect(service.readLink(target)).rejects.toThrow(/is not a symbolic link/);
+
+      const hardLink = path.resolve(testDir, "hard.txt");
+      await service.createHardLink(target, hardLink);
+      const stats = await service.stat(target);
+      expect(stats.exists && stats.linkCount).toBe(2);
+    });
+
+    it("should chmod with numeric and symbolic modes", async () => {
+      const scriptPath = path.resolve(testDir, "script.sh");
+      await service.writeFile(scriptPath, "#!/bin/sh\n");
+      await service.chmod(scriptPath, 0o644);
+
+      expect(await service.chmod(scriptPath, "+x")).toBe(0o755);
+      expect(await service.chmod(scriptPath, "go-rx")).toBe(0o700);
+      expect(await service.chmod(scriptPath, "640")).toBe(0o640);
+      expect(fs.statSync(scriptPath).mode & 0o7777).toBe(0o640);
+      await expect(service.chmod(scriptPath, "+q")).rejects.toThrow(/Invalid file mode/);
+    });
+
+    it("should delete directories recursively, non-recursively and as a dry run", async () => {
+      const distDir = path.resolve(testDir, "dist");
+      await service.writeFile(path.join(distDir, "index.js"), "built");
+      await service.writeFile(path.join(distDir, "nested", "chunk.js"), "built");
+      const emptyDir = path.resolve(testDir, "empty");
+      await service.createDirectory(emptyDir);
+
+      await expect(service.deleteDirectory(distDir)).rejects.toThrow(/is not empty/);
+
+      const planned = await service.deleteDirectory(distDir, { recursive: true, dryRun: true });
+      expect(planned.map(entry => path.relative(testDir, entry)).sort()).toEqual(["dist", "dist/index.js", "dist/nested", "dist/nested/chunk.js"]);
+      expect(fs.existsSync(distDir)).toBe(true);
+
+      await service.deleteDirectory(distDir, { recursive: true });
+      expect(fs.existsSync(distDir)).toBe(false);
+
+      expect(await service.deleteDirectory(emptyDir)).toEqual([emptyDir]);
+      expect(fs.existsSync(emptyDir)).toBe(false);
+    });
+
+    it("should refuse to delete shallow or protected directories", async () => {
+      const guarded = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ minDeletionDepth: 4, allowedRoots: [testDir] }));
+      const shallowDir = path.resolve(testDir, "shallow");
+      fs.ensureDirSync(path.join(shallowDir, "deeper"));
+
+      await expect(guarded.deleteDirectory(shallowDir, { recursive: true })).rejects.toThrow(/fewer than 4 levels/);
+      await expect(service.deleteDirectory(testDir, { recursive: true, dryRun: true })).resolves.toContain(shallowDir);
+      await expect(
+        new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ allowedRoots: [testDir] })).deleteDirectory(testDir, { recursive: true }),
+      ).rejects.toThrow(/protected directory/);
+      await expect(service.deleteDirectory(process.cwd(), { recursive: true, dryRun: true })).rejects.toThrow(/protected directory/);
+      await expect(
+        new PosixFileSystemProvider(
+          PosixFileSystemProviderOptionsSchema.parse({ readOnlyRoots: [path.join(shallowDir, "deeper")] }),
+        ).deleteDirectory(shallowDir, { recursive: true }),
+      ).rejects.toThrow(/protected directory/);
+      expect(fs.existsSync(path.join(shallowDir, "deeper"))).toBe(true);
+    });
+
     it("should copy files and directories", async () => {
       const sourceFile = "source.txt";
       const absoluteSourceFile = path.resolve(testDir, sourceFile);
@@ -112,6 +214,134 @@ describe("PosixFileSystemProvider Integration Tests", () => {
     });
   });
 
+  describe("Atomic Writes", () => {
+    it("should preserve the mode of an existing file and leave no temp files behind", async () => {
+      const scriptPath = path.resolve(testDir, "script.sh");
+      fs.writeFileSync(scriptPath, "#!/bin/sh\necho old\n");
+      fs.chmodSync(scriptPath, 0o755);
+
+      await service.writeFile(scriptPath, "#!/bin/sh\necho new\n");
+
+      expect(fs.statSync(scriptPath).mode & 0o777).toBe(0o755);
+      expect(fs.readFileSync(scriptPath, "utf8")).toBe("#!/bin/sh\necho new\n");
+      expect(fs.readdirSync(testDir)).toEqual(["script.sh"]);
+    });
+
+    it("should write through symlinks instead of replacing them", async () => {
+      const target = path.resolve(testDir, "target.txt");
+      const link = path.resolve(testDir, "link.txt");
+      fs.writeFileSync(target, "old");
+      fs.symlinkSync(target, link);
+
+      await service.writeFile(link, "new");
+
+      expect(fs.lstatSync(link).isSymbolicLink()).toBe(true);
+      expect(fs.readFileSync(target, "utf8")).toBe("new");
+    });
+
+    it("should reject writes whose expected mtime or hash is stale", async () => {
+      const filePath = path.resolve(testDir, "edited.txt");
+      await service.writeFile(filePath, "agent read this");
+      const stats = await service.stat(filePath);
+      const hash = await service.hashFile(filePath);
+
+      // A human edits the file after the agent read it.
+      fs.writeFileSync(filePath, "human edit");
+      fs.utimesSync(filePath, new Date(), new Date(Date.now() + 5000));
+
+      const modified = stats.exists ? stats.modified : undefined;
+      await expect(service.writeFile(filePath, "agent write", { expectedModified: modified })).rejects.toBeInstanceOf(WriteConflictError);
+      await expect(service.writeFile(filePath, "agent write", { expectedHash: hash })).rejects.toBeInstanceOf(WriteConflictError);
+      expect(fs.readFileSync(filePath, "utf8")).toBe("human edit");
+
+      await service.writeFile(filePath, "agent write", { expectedHash: await service.hashFile(filePath) });
+      expect(fs.readFileSync(filePath, "utf8")).toBe("agent write");
+    });
+  });
+
+  describe("Text Conventions", () => {
+    it("should keep CRLF line endings and the BOM of an existing file", async () => {
+      const preserving = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ preserveLineEndings: true }));
+      const filePath = path.resolve(testDir, "fixture.txt");
+      fs.writeFileSync(filePath, "\uFEFFfirst\r\nsecond\r\n");
+
+      await preserving.writeFile(filePath, "one\ntwo\n");
+      expect(fs.readFileSync(filePath, "utf8")).toBe("\uFEFFone\r\ntwo\r\n");
+
+      await preserving.appendFile(filePath, "three\n");
+      expect(fs.readFileSync(filePath, "utf8")).toBe("\uFEFFone\r\ntwo\r\nthree\r\n");
+    });
+
+    it("should leave line endings alone unless preserveLineEndings is enabled", async () => {
+      const filePath = path.resolve(testDir, "fixture.txt");
+      fs.writeFileSync(filePath, "first\r\nsecond\r\n");
+
+      await service.writeFile(filePath, "one\ntwo\n");
+      expect(fs.readFileSync(filePath, "utf8")).toBe("one\ntwo\n");
+    });
+
+    it("should not carry over the mode when preserveFileMetadata is disabled", async () => {
+      const plain = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ preserveFileMetadata: false }));
+      const scriptPath = path.resolve(testDir, "script.sh");
+      fs.writeFileSync(scriptPath, "#!/bin/sh\n");
+      fs.chmodSync(scriptPath, 0o755);
+
+      await plain.writeFile(scriptPath, "#!/bin/sh\necho new\n");
+      expect(fs.statSync(scriptPath).mode & 0o111).toBe(0);
+    });
+  });
+
+  describe("Journal", () => {
+    let journaled!: PosixFileSystemProvider;
+
+    beforeEach(() => {
+      journaled = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ journalDirectory: path.join(testDir, ".trash") }));
+    });
+
+    it("should restore overwritten, deleted and renamed files", async () => {
+      const filePath = path.resolve(testDir, "notes.txt");
+      await journaled.writeFile(filePath, "original");
+      await journaled.writeFile(filePath, "rewritten");
+      await journaled.rename(filePath, path.resolve(testDir, "moved.txt"));
+      await journaled.deleteFile(path.resolve(testDir, "moved.txt"));
+
+      const entries = await journaled.listJournalEntries();
+      expect(entries.map(entry => entry.operation)).toEqual(["writeFile", "writeFile", "rename", "deleteFile"]);
+
+      for (const entry of entries.slice(1).reverse()) {
+        await journaled.restoreJournalEntry(entry.id);
+      }
+      expect(fs.readFileSync(filePath, "utf8")).toBe("original");
+      expect(fs.existsSync(path.resolve(testDir, "moved.txt"))).toBe(false);
+
+      // The first write created the file, so undoing it removes the file.
+      await journaled.restoreJournalEntry(entries[0]!.id);
+      expect(fs.existsSync(filePath)).toBe(false);
+      await expect(journaled.restoreJournalEntry(entries[0]!.id)).rejects.toThrow(/already restored/);
+    });
+
+    it("should restore a recursively deleted directory and an overwriting copy", async () => {
+      const distDir = path.resolve(testDir, "dist");
+      await journaled.writeFile(path.join(distDir, "a.js"), "a");
+      await journaled.writeFile(path.resolve(testDir, "other.js"), "other");
+      await journaled.copy(path.resolve(testDir, "other.js"), path.join(distDir, "a.js"), { overwrite: true });
+      await journaled.deleteDirectory(distDir, { recursive: true });
+
+      const entries = await journaled.listJournalEntries();
+      const [copyEntry, deleteEntry] = entries.slice(-2);
+      await journaled.restoreJournalEntry(deleteEntry!.id);
+      expect(fs.readFileSync(path.join(distDir, "a.js"), "utf8")).toBe("other");
+      await journaled.restoreJournalEntry(copyEntry!.id);
+      expect(fs.readFileSync(path.join(distDir, "a.js"), "utf8")).toBe("a");
+    });
+
+    it("should not record operations that fail", async () => {
+      await expect(journaled.deleteFile(path.resolve(testDir, "missing.txt"))).rejects.toThrow();
+      await expect(journaled.rename(path.resolve(testDir, "missing.txt"), path.resolve(testDir, "other.txt"))).rejects.toThrow();
+      expect(await journaled.listJournalEntries()).toEqual([]);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should throw error for non-existent file operations", async () => {
       const nonExistentFile = path.resolve(testDir, "non-existent.txt");
@@ -119,6 +349,97 @@ describe("PosixFileSystemProvider Integration Tests", () => {
       expect(service.readFile(nonExistentFile)).resolves.toBeNull();
       expect(service.deleteFile(nonExistentFile)).rejects.toThrow();
     });
+
+    it("should tell missing files apart from directories when reading", async () => {
+      const readDirectory = service.readFile(testDir);
+      await expect(readDirectory).rejects.toBeInstanceOf(FileAccessError);
+      await expect(readDirectory).rejects.toMatchObject({ reason: "isDirectory" });
+      await expect(service.readTextFile(path.join(testDir, "missing.txt"))).rejects.toMatchObject({ reason: "notFound" });
+      await expect(service.readFileRange(testDir)).rejects.toMatchObject({ reason: "isDirectory" });
+    });
+  });
+
+  describe("Ranged Reads", () => {
+    const lines = Array.from({ length: 10 }, (_, index) => `line ${index + 1}\n`).join("");
+
+    it("should read byte ranges, counting negative starts from the end", async () => {
+      const filePath = path.join(testDir, "bytes.txt");
+      fs.writeFileSync(filePath, "0123456789");
+
+      expect((await service.readFileRange(filePath, { start: 2, end: 5 })).toString()).toBe("234");
+      expect((await service.readFileRange(filePath, { start: -3 })).toString()).toBe("789");
+      expect((await service.readFileRange(filePath, { start: 8, end: 100 })).toString()).toBe("89");
+    });
+
+    it("should read line ranges and the last lines of a file", async () => {
+      const filePath = path.join(testDir, "lines.txt");
+      fs.writeFileSync(filePath, lines);
+
+      expect((await service.readTextFile(filePath, { startLine: 3, endLine: 4 })).text).toBe("line 3\nline 4\n");
+      const tail = await service.readTextFile(filePath, { tailLines: 2 });
+      expect(tail).toMatchObject({ text: "line 9\nline 10\n", end: lines.length, size: lines.length });
+      expect((await service.readTextFile(filePath, { tailLines: 50 })).text).toBe(lines);
+    });
+
+    it("should reject line numbers that are not positive integers", async () => {
+      const filePath = path.join(testDir, "lines.txt");
+      fs.writeFileSync(filePath, lines);
+
+      await expect(service.readTextFile(filePath, { endLine: 0 })).rejects.toThrow("endLine must be a positive integer, got 0");
+      await expect(service.readTextFile(filePath, { startLine: -2 })).rejects.toThrow("startLine must be a positive integer, got -2");
+      await expect(service.readTextFile(filePath, { startLine: 1.5 })).rejects.toThrow("startLine must be a positive integer, got 1.5");
+      await expect(service.readTextFile(filePath, { tailLines: 0 })).rejects.toThrow("tailLines must be a positive integer, got 0");
+      await expect(service.readTextFile(filePath, { startLine: 4, endLine: 3 })).rejects.toThrow("endLine 3 comes before startLine 4");
+    });
+
+    it("should only read the requested range against maxReadFileSize", async () => {
+      const filePath = path.join(testDir, "large.log");
+      fs.writeFileSync(filePath, lines);
+      const limited = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ maxReadFileSize: 20 }));
+
+      expect((await limited.readTextFile(filePath, { tailLines: 1 })).text).toBe("line 10\n");
+      await expect(limited.readTextFile(filePath)).rejects.toThrow(/exceeds the 20 byte read limit/);
+    });
+
+    it("should detect and decode UTF-16 and Latin-1 text", async () => {
+      const utf16 = path.join(testDir, "utf16.txt");
+      fs.writeFileSync(utf16, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("héllo\nwörld\n", "utf16le")]));
+      const latin1 = path.join(testDir, "latin1.txt");
+      fs.writeFileSync(latin1, Buffer.from("café\n", "latin1"));
+
+      expect(await service.readTextFile(utf16)).toMatchObject({ text: "héllo\nwörld\n", encoding: "utf-16le", start: 2 });
+      expect((await service.readTextFile(utf16, { tailLines: 1 })).text).toBe("wörld\n");
+      expect(await service.readTextFile(latin1)).toMatchObject({ text: "café\n", encoding: "latin1" });
+    });
+  });
+
+  describe("Disk Usage", () => {
+    it("should total a tree with a per-child breakdown, skipping ignored paths", async () => {
+      fs.outputFileSync(path.join(testDir, "big", "data.bin"), Buffer.alloc(5000));
+      fs.outputFileSync(path.join(testDir, "big", "more.bin"), Buffer.alloc(3000));
+      fs.outputFileSync(path.join(testDir, "small.txt"), "hello");
+      fs.outputFileSync(path.join(testDir, "node_modules", "dep.js"), Buffer.alloc(10_000));
+      fs.linkSync(path.join(testDir, "big", "data.bin"), path.join(testDir, "data-link.bin"));
+
+      const usage = await service.diskUsage(testDir, { ignoreFilter: file => file.includes("node_modules") });
+      const dirSize = fs.statSync(testDir).size + fs.statSync(path.join(testDir, "big")).size;
+
+      expect(usage).toMatchObject({ path: testDir, size: dirSize + 8005, files: 3, directories: 2 });
+      // Whichever name of the hard-linked file is reached first carries its size.
+      expect(usage.children!.map(child => path.basename(child.path)).sort()).toEqual(["big", "data-link.bin", "small.txt"]);
+      expect(usage.children!.map(child => child.allocated)).toEqual(usage.children!.map(child => child.allocated).sort((a, b) => b - a));
+      expect(usage.children!.find(child => child.path.endsWith("big"))!.children).toBeUndefined();
+      expect(usage.allocated).toBeGreaterThanOrEqual(8192);
+    });
+
+    it("should report the capacity of the filesystem holding a path", async () => {
+      const capacity = await service.filesystemCapacity(testDir);
+
+      expect(capacity.total).toBeGreaterThan(0);
+      expect(capacity.available).toBeLessThanOrEqual(capacity.free);
+      expect(capacity.used + capacity.free).toBe(capacity.total);
+      expect(capacity.freeInodes).toBeLessThanOrEqual(capacity.totalInodes);
+    });
   });
 
   describe("Glob and Search Operations", () => {
@@ -134,6 +455,509 @@ describe("PosixFileSystemProvider Integration Tests", () => {
       expect(txtFiles).toContain(path.resolve(testDir, "file2.txt"));
       expect(txtFiles).toHaveLength(2);
     });
+
+    it("should glob relative to a cwd with multiple patterns, exclusions and max depth", async () => {
+      for (const file of ["a.ts", "b.js", "src/c.ts", "src/c.test.ts", "src/deep/d.ts"]) {
+        await service.writeFile(path.resolve(testDir, file), file);
+      }
+      const relativeTo = (files: string[]) => files.map(file => path.relative(testDir, file));
+
+      const files = await service.glob(["**/*.ts", "*.js", "!**/*.test.ts"], { ignoreFilter: () => false, cwd: testDir, sort: "path" });
+      expect(relativeTo(files)).toEqual(["a.ts", "b.js", "src/c.ts", "src/deep/d.ts"]);
+
+      const shallow = await service.glob("**/*.ts", { ignoreFilter: () => false, cwd: testDir, maxDepth: 2, exclude: ["src/c.*"], sort: "path" });
+      expect(relativeTo(shallow)).toEqual(["a.ts"]);
+
+      const seen: string[] = [];
+      const topLevel = await service.glob("**/*", {
+        ignoreFilter: filePath => {
+          seen.push(path.relative(testDir, filePath));
+          return false;
+        },
+        cwd: testDir,
+        maxDepth: 1,
+        sort: "path",
+      });
+      expect(relativeTo(topLevel)).toEqual(["a.ts", "b.js"]);
+      expect(seen.sort()).toEqual(["a.ts", "b.js", "src"]);
+    });
+
+    it("should match patterns written with a leading ./ or redundant segments", async () => {
+      for (const file of ["src/c.ts", "src/c.test.ts", "src/deep/d.ts"]) {
+        await service.writeFile(path.resolve(testDir, file), file);
+      }
+
+      const files = await service.glob(["./src/*.ts", "src//deep/../deep/*.ts"], {
+        ignoreFilter: () => false,
+        cwd: testDir,
+        exclude: ["./src/*.test.ts"],
+        sort: "path",
+      });
+      expect(files.map(file => path.relative(testDir, file))).toEqual(["src/c.ts", "src/deep/d.ts"]);
+    });
+
+    it("should sort glob results by modification time, newest first", async () => {
+      const now = Date.now() / 1000;
+      for (const [file, age] of [["old.txt", 300], ["new.txt", 0], ["mid.txt", 100]] as const) {
+        await service.writeFile(path.resolve(testDir, file), file);
+        fs.utimesSync(path.resolve(testDir, file), now - age, now - age);
+      }
+
+      const files = await service.glob("*.txt", { ignoreFilter: () => false, cwd: testDir, sort: "mtime" });
+      expect(files.map(file => path.basename(file))).toEqual(["new.txt", "mid.txt", "old.txt"]);
+    });
+
+    it("should list structured directory entries with depth limits and sorting", async () => {
+      await service.writeFile(path.resolve(testDir, "b.txt"), "bb");
+      await service.writeFile(path.resolve(testDir, "a.txt"), "a");
+      await service.writeFile(path.resolve(testDir, "sub", "deep", "c.txt"), "ccc");
+      fs.symlinkSync("a.txt", path.resolve(testDir, "link.txt"));
+
+      const entries = await Array.fromAsync(service.listDirectory(testDir, { ignoreFilter: () => false, maxDepth: 2 }));
+      expect(entries.map(({ path: entryPath, depth, type }) => [path.relative(testDir, entryPath), depth, type])).toEqual([
+        ["a.txt", 1, "file"],
+        ["b.txt", 1, "file"],
+        ["link.txt", 1, "symlink"],
+        ["sub", 1, "directory"],
+        ["sub/deep", 2, "directory"],
+      ]);
+      expect(entries[0]).toMatchObject({ name: "a.txt", size: 1, isSymbolicLink: false });
+      expect(entries[2]).toMatchObject({ isSymbolicLink: true, symlinkTarget: "a.txt" });
+
+      const bySize = await Array.fromAsync(service.listDirectory(testDir, { ignoreFilter: () => false, maxDepth: 1, sort: "size" }));
+      expect(bySize.filter(entry => entry.type === "file").map(entry => entry.name)).toEqual(["b.txt", "a.txt"]);
+    });
+
+    it("should follow symlinked directories without looping on cycles", async () => {
+      await service.writeFile(path.resolve(testDir, "real", "file.txt"), "content");
+      fs.symlinkSync(path.resolve(testDir, "real"), path.resolve(testDir, "alias"));
+      fs.symlinkSync("..", path.resolve(testDir, "real", "parent"));
+
+      const entries = await Array.fromAsync(service.listDirectory(testDir, { ignoreFilter: () => false, followSymlinks: true }));
+      const listed = entries.map(entry => path.relative(testDir, entry.path));
+
+      expect(listed).toContain("alias/file.txt");
+      expect(listed).toContain("real/parent");
+      expect(listed.some(entry => entry.startsWith("real/parent/"))).toBe(false);
+      expect(entries.find(entry => entry.name === "alias")).toMatchObject({ type: "directory", isSymbolicLink: true });
+    });
+
+    it("should grep with regular expressions and report match columns", async () => {
+      await service.writeFile(path.resolve(testDir, "code.ts"), "function foo() {}\nconst foo = 1;\nfunction  bar() {}\n");
+
+      const results = await service.grep("function\\s+\\w+", { ignoreFilter: () => false, cwd: testDir, regex: true });
+      expect(results.map(result => result.line)).toEqual([1, 3]);
+      expect(results[0]!.columns).toEqual([{ start: 0, end: 12 }]);
+    });
+
+    it("should grep case-insensitively, by whole word and inverted", async () => {
+      await service.writeFile(path.resolve(testDir, "words.txt"), "Cat\nconcatenate\ndog");
+      const ignoreFilter = () => false;
+
+      const insensitive = await service.grep("cat", { ignoreFilter, cwd: testDir, ignoreCase: true });
+      expect(insensitive.map(result => result.match)).toEqual(["Cat", "concatenate"]);
+
+      const wholeWord = await service.grep("cat", { ignoreFilter, cwd: testDir, ignoreCase: true, wholeWord: true });
+      expect(wholeWord.map(result => result.match)).toEqual(["Cat"]);
+
+      const inverted = await service.grep("cat", { ignoreFilter, cwd: testDir, invert: true });
+      expect(inverted.map(result => result.match)).toEqual(["Cat", "dog"]);
+      expect(inverted[0]!.columns).toEqual([]);
+    });
+
+    it("should match whole words that start or end with punctuation", async () => {
+      await service.writeFile(path.resolve(testDir, "punctuation.txt"), "run -v now\nx = $scope;\ncall foo(1)\nrun-verbose");
+
+      const results = await service.grep(["-v", "$scope", "foo("], { ignoreFilter: () => false, cwd: testDir, wholeWord: true });
+      expect(results.map(result => result.match)).toEqual(["run -v now", "x = $scope;", "call foo(1)"]);
+    });
+
+    it("should skip binary and oversized files when grepping", async () => {
+      await service.writeFile(path.resolve(testDir, "text.txt"), "needle");
+      await service.writeFile(path.resolve(testDir, "image.wasm"), Buffer.from([0x00, 0x61, 0x73, 0x6d, ...Buffer.from("needle")]));
+      await service.writeFile(path.resolve(testDir, "big.log"), `needle\n${"x".repeat(2048)}`);
+
+      const results = await service.grep("needle", { ignoreFilter: () => false, cwd: testDir, maxFileSize: 1024 });
+      expect(results.map(result => path.basename(result.file))).toEqual(["text.txt"]);
+      expect(results.skippedFiles.map(({ file, reason }) => [path.basename(file), reason]).sort()).toEqual([
+        ["big.log", "tooLarge"],
+        ["image.wasm", "binary"],
+      ]);
+    });
+
+    it("should report files over the provider's read limit as skipped", async () => {
+      const limited = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ maxReadFileSize: 1024 }));
+      await service.writeFile(path.resolve(testDir, "small.txt"), "needle");
+      await service.writeFile(path.resolve(testDir, "big.log"), `needle\n${"x".repeat(2048)}`);
+
+      const results = await limited.grep("needle", { ignoreFilter: () => false, cwd: testDir });
+      expect(results.map(result => path.basename(result.file))).toEqual(["small.txt"]);
+      expect(results.skippedFiles.map(({ file, reason }) => [path.basename(file), reason])).toEqual([["big.log", "tooLarge"]]);
+    });
+
+    it("should stop at maxResults and mark the results truncated", async () => {
+      await service.writeFile(path.resolve(testDir, "many.txt"), "hit\nhit\nhit\nhit\n");
+
+      const results = await service.grep("hit", { ignoreFilter: () => false, cwd: testDir, maxResults: 2 });
+      expect(results).toHaveLength(2);
+      expect(results.truncated).toBe(true);
+
+      const exact = await service.grep("hit", { ignoreFilter: () => false, cwd: testDir, maxResults: 4 });
+      expect(exact).toHaveLength(4);
+      expect(exact.truncated).toBe(false);
+    });
+
+    it("should refuse to read files above maxReadFileSize", async () => {
+      const limited = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ maxReadFileSize: 4 }));
+      const filePath = path.resolve(testDir, "large.txt");
+      await service.writeFile(filePath, "too large");
+
+      await expect(limited.readFile(filePath)).rejects.toThrow(/exceeds the 4 byte read limit/);
+    });
+
+    it("should stream grep results across files and report a summary", async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.writeFile(path.resolve(testDir, `file${i}.txt`), `match ${i}\nother`);
+      }
+
+      const stream = service.grepStream("match", { ignoreFilter: () => false, cwd: testDir, concurrency: 3 });
+      const files: string[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        files.push(path.basename(next.value.file));
+        next = await stream.next();
+      }
+
+      expect(files.sort()).toEqual(["file0.txt", "file1.txt", "file2.txt", "file3.txt", "file4.txt"]);
+      expect(next.value).toEqual({ truncated: false, skippedFiles: [] });
+    });
+
+    it("should yield a file's results before the rest of the tree has been walked", async () => {
+      const first = path.resolve(testDir, "first.txt");
+      const second = path.resolve(testDir, "second.txt");
+      await service.writeFile(first, "match");
+      await service.writeFile(second, "match");
+
+      let releaseWalk!: () => void;
+      const walkGate = new Promise<void>(resolve => (releaseWalk = resolve));
+      service.getDirectoryTree = async function* () {
+        yield first;
+        await walkGate;
+        yield second;
+      };
+
+      const stream = service.grepStream("match", { ignoreFilter: () => false, cwd: testDir, concurrency: 8 });
+      const early = await Promise.race([stream.next(), new Promise(resolve => setTimeout(() => resolve("stalled"), 2000))]);
+      releaseWalk();
+
+      expect(early).toMatchObject({ done: false, value: { file: first } });
+      expect(await stream.next()).toMatchObject({ done: false, value: { file: second } });
+      expect((await stream.next()).done).toBe(true);
+    });
+
+    it("should stop a grep stream when its signal is aborted", async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.writeFile(path.resolve(testDir, `file${i}.txt`), "match");
+      }
+
+      const controller = new AbortController();
+      const seen: string[] = [];
+      const consume = async () => {
+        for await (const result of service.grepStream("match", { ignoreFilter: () => false, cwd: testDir, concurrency: 1, signal: controller.signal })) {
+          seen.push(result.file);
+          controller.abort();
+        }
+      };
+
+      await expect(consume()).rejects.toThrow();
+      expect(seen).toHaveLength(1);
+    });
+
+    it("should reject invalid regular expressions", async () => {
+      await expect(service.grep("(unclosed", { ignoreFilter: () => false, cwd: testDir, regex: true })).rejects.toThrow(/Invalid regular expression/);
+    });
+  });
+
+  describe("Patch Application", () => {
+    it("should apply a multi-file unified diff with offsets and fuzz", async () => {
+      const lines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+      fs.writeFileSync(path.join(testDir, "numbers.txt"), ["header", "header", ...lines].join("\n") + "\n");
+      fs.writeFileSync(path.join(testDir, "obsolete.txt"), "gone\n");
+
+      const diff = [
+        "--- a/numbers.txt",
+        "+++ b/numbers.txt",
+        "@@ -3,5 +3,5 @@",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " changed context",
+        "--- a/obsolete.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-gone",
+        "--- /dev/null",
+        "+++ b/nested/created.txt",
+        "@@ -0,0 +1,2 @@",
+        "+first",
+        "+second",
+      ].join("\n");
+
+      const result = await service.applyPatch(diff, { cwd: testDir });
+
+      expect(result.applied).toBe(true);
+      expect(result.files.map(file => file.status)).toEqual(["modified", "deleted", "created"]);
+      expect(result.files[0]!.hunks).toEqual([{ index: 0, status: "applied", line: 5, offset: 2, fuzz: 1, ignoredWhitespace: false }]);
+      expect(fs.readFileSync(path.join(testDir, "numbers.txt"), "utf-8")).toContain("line 4\nline five\nline 6\n");
+      expect(fs.existsSync(path.join(testDir, "obsolete.txt"))).toBe(false);
+      expect(fs.readFileSync(path.join(testDir, "nested", "created.txt"), "utf-8")).toBe("first\nsecond\n");
+    });
+
+    it("should write nothing and report each rejected hunk when any hunk fails", async () => {
+      fs.writeFileSync(path.join(testDir, "a.txt"), "one\ntwo\nthree\n");
+      fs.writeFileSync(path.join(testDir, "b.txt"), "alpha\nbeta\ngamma\n");
+
+      const diff = [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,3 +1,3 @@",
+        " one",
+        "-two",
+        "+TWO",
+        " three",
+        "--- a/b.txt",
+        "+++ b/b.txt",
+        "@@ -1,3 +1,3 @@",
+        " alpha",
+        "-delta",
+        "+DELTA",
+        " gamma",
+      ].join("\n");
+
+      const result = await service.applyPatch(diff, { cwd: testDir });
+
+      expect(result.applied).toBe(false);
+      expect(result.files[0]!.status).toBe("modified");
+      expect(result.files[1]).toMatchObject({
+        status: "rejected",
+        hunks: [{ index: 0, status: "rejected", expectedLine: 1, closestLine: 1 }],
+      });
+      expect(fs.readFileSync(path.join(testDir, "a.txt"), "utf-8")).toBe("one\ntwo\nthree\n");
+    });
+
+    it("should keep CRLF line endings and match context ignoring whitespace", async () => {
+      const filePath = path.join(testDir, "windows.txt");
+      fs.writeFileSync(filePath, "if (x) {\r\n    call();\r\n}\r\n");
+
+      const diff = ["--- windows.txt", "+++ windows.txt", "@@ -1,3 +1,3 @@", " if (x) {", "-  call();", "+  other();", " }"].join("\n");
+      const result = await service.applyPatch(diff, { cwd: testDir });
+
+      expect(result.files[0]!.hunks[0]).toMatchObject({ status: "applied", ignoredWhitespace: true });
+      expect(fs.readFileSync(filePath, "utf-8")).toBe("if (x) {\r\n  other();\r\n}\r\n");
+    });
+
+    it("should apply search/replace edit blocks and reject ambiguous ones", async () => {
+      const filePath = path.join(testDir, "edit.ts");
+      fs.writeFileSync(filePath, "const a = 1;\nconst b = 1;\n");
+
+      const ambiguous = await service.applyEdits([
+        { path: "edit.ts", search: "const a = 1;", replace: "const a = 2;" },
+        { path: "edit.ts", search: "const", replace: "let" },
+      ], { cwd: testDir });
+      expect(ambiguous.applied).toBe(false);
+      expect(ambiguous.files[0]!.hunks[1]).toMatchObject({ index: 1, status: "rejected", reason: "Search text matches 2 times (lines 1, 2)" });
+      expect(fs.readFileSync(filePath, "utf-8")).toBe("const a = 1;\nconst b = 1;\n");
+
+      const result = await service.applyEdits([
+        { path: "edit.ts", search: "const   b = 1;", replace: "const b = 2;" },
+        { path: "new.ts", search: "", replace: "export {};\n" },
+      ], { cwd: testDir });
+      expect(result.applied).toBe(true);
+      expect(fs.readFileSync(filePath, "utf-8")).toBe("const a = 1;\nconst b = 2;\n");
+      expect(fs.readFileSync(path.join(testDir, "new.ts"), "utf-8")).toBe("export {};\n");
+    });
+
+    it("should leave files untouched on a dry run", async () => {
+      const filePath = path.join(testDir, "dry.txt");
+      fs.writeFileSync(filePath, "before\n");
+
+      const result = await service.applyEdits([{ path: filePath, search: "before", replace: "after" }], { dryRun: true });
+
+      expect(result.applied).toBe(true);
+      expect(fs.readFileSync(filePath, "utf-8")).toBe("before\n");
+    });
+  });
+
+  describe("Gitignore Filtering", () => {
+    let ignoring!: PosixFileSystemProvider;
+
+    beforeEach(() => {
+      ignoring = new PosixFileSystemProvider(PosixFileSystemProviderOptionsSchema.parse({ respectGitignore: true }));
+      fs.outputFileSync(path.join(testDir, ".git", "HEAD"), "ref: refs/heads/main\n");
+      fs.outputFileSync(path.join(testDir, ".git", "info", "exclude"), "excluded.txt\n");
+      fs.outputFileSync(path.join(testDir, ".gitignore"), "node_modules/\n*.log\n!keep.log\n/build\n");
+      fs.outputFileSync(path.join(testDir, "src", ".gitignore"), "generated/\n!debug.log\n");
+      for (const file of [
+        "src/index.ts",
+        "src/debug.log",
+        "src/trace.log",
+        "src/generated/types.ts",
+        "node_modules/pkg/index.js",
+        "build/out.js",
+        "lib/build/out.js",
+        "keep.log",
+        "excluded.txt",
+      ]) {
+        fs.outputFileSync(path.join(testDir, file), "needle");
+      }
+    });
+
+    it("should apply nested ignore files, negations and info/exclude in getDirectoryTree", async () => {
+      const entries: string[] = [];
+      for await (const entry of ignoring.getDirectoryTree(testDir, { ignoreFilter: () => false })) {
+        entries.push(path.relative(testDir, entry) + (entry.endsWith("/") ? "/" : ""));
+      }
+
+      expect(entries.sort()).toEqual([".gitignore", "keep.log", "lib/", "lib/build/", "lib/build/out.js", "src/", "src/.gitignore", "src/debug.log", "src/index.ts"]);
+    });
+
+    it("should prune ignored directories without reading them", async () => {
+      const seen: string[] = [];
+      const results = await ignoring.grep("needle", {
+        ignoreFilter: filePath => {
+          seen.push(filePath);
+          return false;
+        },
+        cwd: testDir,
+      });
+
+      expect(results.map(result => path.relative(testDir, result.file)).sort()).toEqual(["keep.log", "lib/build/out.js", "src/debug.log", "src/index.ts"]);
+      expect(seen).toContain(path.join(testDir, "node_modules"));
+      expect(seen.filter(filePath => filePath.includes(`node_modules${path.sep}`) || filePath.includes(`.git${path.sep}`))).toEqual([]);
+    });
+
+    it("should filter glob results without reading ignored directories", async () => {
+      const seen: string[] = [];
+      const files = await ignoring.glob(path.join(testDir, "**", "*.log"), {
+        ignoreFilter: filePath => {
+          seen.push(filePath);
+          return false;
+        },
+      });
+
+      expect(files.map(file => path.relative(testDir, file)).sort()).toEqual(["keep.log", "src/debug.log"]);
+      expect(seen).toContain(path.join(testDir, "node_modules"));
+      expect(seen.filter(filePath => filePath.includes(`node_modules${path.sep}`) || filePath.includes(`.git${path.sep}`))).toEqual([]);
+    });
+
+    it("should pick up an edited ignore file while polling", async () => {
+      const watcher = await ignoring.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10, usePolling: true });
+      try {
+        await new Promise(resolve => watcher.once("ready", resolve));
+        const added: string[] = [];
+        watcher.on("add", (filePath: string) => added.push(path.relative(testDir, filePath)));
+
+        const gitIgnoreChanged = waitForWatchEvent(watcher, "change", path.join(testDir, ".gitignore"));
+        fs.appendFileSync(path.join(testDir, ".gitignore"), "*.tmp\n");
+        await gitIgnoreChanged;
+        const visible = waitForWatchEvent(watcher, "add", path.join(testDir, "visible.txt"));
+        fs.writeFileSync(path.join(testDir, "scratch.tmp"), "scratch");
+        fs.writeFileSync(path.join(testDir, "visible.txt"), "visible");
+        await visible;
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(added).toEqual(["visible.txt"]);
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  describe("Path Confinement", () => {
+    let rootDir!: string;
+    let outsideDir!: string;
+    let confined!: PosixFileSystemProvider;
+
+    beforeEach(() => {
+      rootDir = path.join(testDir, "root");
+      outsideDir = path.join(testDir, "outside");
+      fs.ensureDirSync(rootDir);
+      fs.ensureDirSync(outsideDir);
+      fs.writeFileSync(path.join(outsideDir, "secret.txt"), "secret");
+      confined = new PosixFileSystemProvider(
+        PosixFileSystemProviderOptionsSchema.parse({
+          allowedRoots: [rootDir],
+          readOnlyRoots: [path.join(rootDir, "vendor")],
+        }),
+      );
+    });
+
+    it("should allow operations inside the allowed roots", async () => {
+      const filePath = path.join(rootDir, "nested", "file.txt");
+      await confined.writeFile(filePath, "inside");
+      expect((await confined.readFile(filePath))?.toString("utf8")).toBe("inside");
+    });
+
+    it("should reject paths that escape via .. segments", async () => {
+      const escaping = path.join(rootDir, "..", "outside", "secret.txt");
+      await expect(confined.readFile(escaping)).rejects.toBeInstanceOf(PathConfinementError);
+      await expect(confined.writeFile(escaping, "overwritten")).rejects.toBeInstanceOf(PathConfinementError);
+      expect(fs.readFileSync(path.join(outsideDir, "secret.txt"), "utf8")).toBe("secret");
+    });
+
+    it("should reject symlinks that point out of the tree, including dangling ones", async () => {
+      fs.symlinkSync(outsideDir, path.join(rootDir, "escape"));
+      fs.symlinkSync(path.join(outsideDir, "missing.txt"), path.join(rootDir, "dangling.txt"));
+
+      await expect(confined.readFile(path.join(rootDir, "escape", "secret.txt"))).rejects.toBeInstanceOf(PathConfinementError);
+      await expect(confined.writeFile(path.join(rootDir, "escape", "new.txt"), "x")).rejects.toBeInstanceOf(PathConfinementError);
+      await expect(confined.writeFile(path.join(rootDir, "dangling.txt"), "x")).rejects.toBeInstanceOf(PathConfinementError);
+      expect(fs.existsSync(path.join(outsideDir, "missing.txt"))).toBe(false);
+    });
+
+    it("should refuse to link out of the allowed roots", async () => {
+      await expect(confined.createSymlink(outsideDir, path.join(rootDir, "escape"))).rejects.toBeInstanceOf(PathConfinementError);
+      await expect(confined.createHardLink(path.join(outsideDir, "secret.txt"), path.join(rootDir, "secret.txt"))).rejects.toBeInstanceOf(
+        PathConfinementError,
+      );
+      await expect(confined.chmod(path.join(outsideDir, "secret.txt"), "+x")).rejects.toBeInstanceOf(PathConfinementError);
+    });
+
+    it("should allow reads but reject writes inside read-only roots", async () => {
+      const vendored = path.join(rootDir, "vendor", "lib.js");
+      fs.outputFileSync(vendored, "vendored");
+
+      expect((await confined.readFile(vendored))?.toString("utf8")).toBe("vendored");
+      await expect(confined.writeFile(vendored, "patched")).rejects.toBeInstanceOf(PathConfinementError);
+      await expect(confined.deleteFile(vendored)).rejects.toBeInstanceOf(PathConfinementError);
+    });
+
+    it("should reject renames and copies of a directory that contains a read-only root", async () => {
+      const nestedReadOnly = new PosixFileSystemProvider(
+        PosixFileSystemProviderOptionsSchema.parse({
+          allowedRoots: [rootDir],
+          readOnlyRoots: [path.join(rootDir, "sub", "vendor")],
+        }),
+      );
+      const vendored = path.join(rootDir, "sub", "vendor", "lib.js");
+      fs.outputFileSync(vendored, "vendored");
+      fs.outputFileSync(path.join(rootDir, "src", "vendor", "lib.js"), "replacement");
+
+      await expect(nestedReadOnly.rename(path.join(rootDir, "sub"), path.join(rootDir, "moved"))).rejects.toBeInstanceOf(PathConfinementError);
+      await expect(nestedReadOnly.copy(path.join(rootDir, "src"), path.join(rootDir, "sub"), { overwrite: true })).rejects.toBeInstanceOf(
+        PathConfinementError,
+      );
+      expect(fs.readFileSync(vendored, "utf8")).toBe("vendored");
+    });
+
+    it("should drop glob matches outside the allowed roots", async () => {
+      fs.writeFileSync(path.join(rootDir, "inside.txt"), "inside");
+
+      const files = await confined.glob(path.join(testDir, "*", "*.txt"), { ignoreFilter: () => false });
+      expect(files).toEqual([path.join(rootDir, "inside.txt")]);
+    });
   });
 
   describe("Watch Operations", () => {
@@ -143,6 +967,7 @@ describe("PosixFileSystemProvider Integration Tests", () => {
         pollInterval: 5,
         stabilityThreshold: 10,
       });
+      expect(watcher.mode).toBe("native");
       // Allow the native recursive watcher and initial scan to settle.
       await new Promise(resolve => setTimeout(resolve, 50));
 
@@ -159,5 +984,237 @@ describe("PosixFileSystemProvider Integration Tests", () => {
         watcher.close();
       }
     });
+
+    it("should report directories being added and removed", async () => {
+      const nestedDir = path.join(testDir, "nested");
+      fs.mkdirSync(nestedDir);
+      fs.writeFileSync(path.join(nestedDir, "file.txt"), "content");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10 });
+      try {
+        await waitForWatchEvent(watcher, "add", path.join(nestedDir, "file.txt"));
+
+        const addedDir = path.join(testDir, "added");
+        const dirAdded = waitForWatchEvent(watcher, "addDir", addedDir);
+        fs.mkdirSync(addedDir);
+        await expect(dirAdded).resolves.toBe(addedDir);
+
+        const events: string[] = [];
+        watcher.on("unlink", (filePath: string) => events.push(`unlink ${path.relative(testDir, filePath)}`));
+        watcher.on("unlinkDir", (dirPath: string) => events.push(`unlinkDir ${path.relative(testDir, dirPath)}`));
+        const dirRemoved = waitForWatchEvent(watcher, "unlinkDir", nestedDir);
+        fs.removeSync(nestedDir);
+        await dirRemoved;
+
+        expect(events).toEqual(["unlink nested/file.txt", "unlinkDir nested"]);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should pair a removal and an addition of the same file into a rename", async () => {
+      const oldPath = path.join(testDir, "old.txt");
+      const newPath = path.join(testDir, "new.txt");
+      fs.writeFileSync(oldPath, "content");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 50 });
+      try {
+        await waitForWatchEvent(watcher, "add", oldPath);
+
+        const events: string[] = [];
+        for (const event of ["add", "unlink"]) watcher.on(event, (filePath: string) => events.push(`${event} ${filePath}`));
+        const renamed = new Promise<string[]>(resolve => watcher.on("rename", (from: string, to: string) => resolve([from, to])));
+        fs.renameSync(oldPath, newPath);
+
+        expect(await renamed).toEqual([oldPath, newPath]);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(events).toEqual([]);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should report removals after the rename window rather than the stability threshold", async () => {
+      const filePath = path.join(testDir, "doomed.txt");
+      fs.writeFileSync(filePath, "content");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 1000, renameWindow: 20 });
+      try {
+        await waitForWatchEvent(watcher, "add", filePath);
+
+        const removed = waitForWatchEvent(watcher, "unlink", filePath);
+        const removedAt = Date.now();
+        fs.removeSync(filePath);
+        await removed;
+        expect(Date.now() - removedAt).toBeLessThan(500);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should detect changes by polling when native events are not used", async () => {
+      const filePath = path.join(testDir, "polled.txt");
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10, usePolling: true });
+      try {
+        expect(watcher.mode).toBe("polling");
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const added = waitForWatchEvent(watcher, "add", filePath);
+        fs.writeFileSync(filePath, "first");
+        await added;
+
+        const changed = waitForWatchEvent(watcher, "change", filePath);
+        fs.writeFileSync(filePath, "second, and longer");
+        await changed;
+
+        const removed = waitForWatchEvent(watcher, "unlink", filePath);
+        fs.removeSync(filePath);
+        await expect(removed).resolves.toBe(filePath);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    // Permission bits do not stop root from reading a directory.
+    it.skipIf(process.getuid?.() === 0)("should skip unreadable directories when polling and keep what was known under them", async () => {
+      const lockedDir = path.join(testDir, "locked");
+      const lockedFile = path.join(lockedDir, "known.txt");
+      fs.outputFileSync(lockedFile, "known");
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10, usePolling: true });
+      try {
+        await waitForWatchEvent(watcher, "add", lockedFile);
+        const errors: unknown[] = [];
+        const removed: string[] = [];
+        watcher.on("error", error => errors.push(error));
+        watcher.on("unlink", (filePath: string) => removed.push(filePath));
+        fs.chmodSync(lockedDir, 0o000);
+
+        const filePath = path.join(testDir, "fresh.txt");
+        const added = waitForWatchEvent(watcher, "add", filePath);
+        fs.writeFileSync(filePath, "fresh");
+        await added;
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(errors).toHaveLength(1);
+        expect(removed).toEqual([]);
+      } finally {
+        watcher.close();
+        fs.chmodSync(lockedDir, 0o755);
+      }
+    });
+
+    it("should report files changed while switching to polling", async () => {
+      const filePath = path.join(testDir, "known.txt");
+      fs.writeFileSync(filePath, "before");
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10 });
+      try {
+        await waitForWatchEvent(watcher, "add", filePath);
+        const modeChanged = new Promise(resolve => watcher.on("mode", resolve));
+
+        // Simulate inotify running out of watches, then modify the file before the first poll.
+        watcher.handleWatcherError(Object.assign(new Error("watch limit reached"), { code: "ENOSPC" }));
+        const changed = waitForWatchEvent(watcher, "change", filePath);
+        fs.writeFileSync(filePath, "after, and longer");
+
+        await expect(modeChanged).resolves.toBe("polling");
+        await expect(changed).resolves.toBe(filePath);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should emit ready after the initial files have been reported", async () => {
+      fs.writeFileSync(path.join(testDir, "a.txt"), "a");
+      fs.outputFileSync(path.join(testDir, "nested", "b.txt"), "b");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10 });
+      try {
+        const events: string[] = [];
+        watcher.on("add", (filePath: string) => events.push(path.relative(testDir, filePath)));
+        await new Promise(resolve => watcher.once("ready", resolve));
+
+        expect(watcher.isReady).toBe(true);
+        expect(events.sort()).toEqual(["a.txt", "nested/b.txt"]);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should coalesce changes into a single change-set in batched mode", async () => {
+      fs.writeFileSync(path.join(testDir, "existing.txt"), "existing");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10, batchWindow: 100 });
+      try {
+        const initial = new Promise<unknown>(resolve => watcher.once("changes", resolve));
+        await new Promise(resolve => watcher.once("ready", resolve));
+        expect(await initial).toEqual([{ type: "add", path: path.join(testDir, "existing.txt") }]);
+
+        const individual: string[] = [];
+        watcher.on("add", (filePath: string) => individual.push(filePath));
+        const changeSet = new Promise<Array<{ type: string; path: string }>>(resolve => watcher.once("changes", resolve));
+        fs.writeFileSync(path.join(testDir, "one.txt"), "1");
+        fs.writeFileSync(path.join(testDir, "two.txt"), "2");
+        fs.removeSync(path.join(testDir, "existing.txt"));
+
+        const changes = await changeSet;
+        expect(changes.map(change => `${change.type} ${path.relative(testDir, change.path)}`).sort()).toEqual([
+          "add one.txt",
+          "add two.txt",
+          "unlink existing.txt",
+        ]);
+        expect(individual).toEqual([]);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should suppress change events when hashed content is unchanged", async () => {
+      const filePath = path.join(testDir, "hashed.txt");
+      fs.writeFileSync(filePath, "original");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 10, hashContents: true });
+      try {
+        const added = new Promise<string>(resolve => watcher.once("add", (_filePath: string, hash: string) => resolve(hash)));
+        await new Promise(resolve => watcher.once("ready", resolve));
+        expect(await added).toBe(await service.hashFile(filePath));
+
+        const changes: string[] = [];
+        watcher.on("change", (_filePath: string, hash: string) => changes.push(hash));
+        fs.writeFileSync(filePath, "original");
+        fs.utimesSync(filePath, new Date(), new Date(Date.now() + 5000));
+        await new Promise(resolve => setTimeout(resolve, 150));
+        expect(changes).toEqual([]);
+
+        const changed = waitForWatchEvent(watcher, "change", filePath);
+        fs.writeFileSync(filePath, "modified");
+        await changed;
+        expect(changes).toEqual([await service.hashFile(filePath)]);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should report a moved directory as a single renameDir", async () => {
+      const oldDir = path.join(testDir, "old-dir");
+      const newDir = path.join(testDir, "new-dir");
+      fs.mkdirSync(oldDir);
+      fs.writeFileSync(path.join(oldDir, "file.txt"), "content");
+
+      const watcher = await service.watch(testDir, { ignoreFilter: () => false, pollInterval: 5, stabilityThreshold: 50 });
+      try {
+        await waitForWatchEvent(watcher, "add", path.join(oldDir, "file.txt"));
+
+        const events: string[] = [];
+        for (const event of ["add", "unlink", "addDir", "unlinkDir"]) watcher.on(event, (filePath: string) => events.push(`${event} ${filePath}`));
+        const renamed = new Promise<string[]>(resolve => watcher.on("renameDir", (from: string, to: string) => resolve([from, to])));
+        fs.renameSync(oldDir, newDir);
+
+        expect(await renamed).toEqual([oldDir, newDir]);
+        await new Promise(resolve => setTimeout(resolve, 250));
+        expect(events).toEqual([]);
+      } finally {
+        watcher.close();
+      }
+    });
   });
 });
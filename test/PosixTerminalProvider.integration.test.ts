@@ -61,6 +61,101 @@ describe("PosixTerminalProvider Integration Tests", () => {
       }
     });
 
+    it("should report stdout and stderr separately and in arrival order", async () => {
+      const result = await service.runScript("echo out-1; sleep 0.1; echo err-1 >&2; sleep 0.1; echo out-2", {
+        timeoutSeconds: 5,
+        workingDirectory: testDir,
+        isolation: "none",
+      });
+
+      expect(result.status).toBe("success");
+      if (result.status === "success") {
+        expect(result.stdout).toBe("out-1\nout-2\n");
+        expect(result.stderr).toBe("err-1\n");
+        expect(result.output).toBe("out-1\nout-2\n\nerr-1");
+        expect(result.timeline.map(({ stream, text }) => [stream, text])).toEqual([
+          ["stdout", "out-1\n"],
+          ["stderr", "err-1\n"],
+          ["stdout", "out-2\n"],
+        ]);
+        expect(result.timeline[1]!.timestamp).toBeGreaterThanOrEqual(result.timeline[0]!.timestamp);
+      }
+    });
+
+    it("should deliver output chunks while the command is still running", async () => {
+      const forwarded: unknown[][] = [];
+      app.serviceOutput = (...args: unknown[]) => forwarded.push(args);
+      const chunks: string[] = [];
+      let earlyAt = 0;
+
+      const result = await service.runScript("echo early; sleep 0.3; echo late >&2", {
+        timeoutSeconds: 5,
+        workingDirectory: testDir,
+        isolation: "none",
+        streamOutput: true,
+        onOutput: ({ stream, text }) => {
+          chunks.push(`${stream}:${text}`);
+          if (text.includes("early")) earlyAt = Date.now();
+        },
+      });
+
+      expect(result.status).toBe("success");
+      expect(Date.now() - earlyAt).toBeGreaterThanOrEqual(250);
+      expect(chunks).toEqual(["stdout:early\n", "stderr:late\n"]);
+      expect(forwarded).toContainEqual([terminalService, "[runScript]", "stdout:", "early"]);
+      expect(forwarded).toContainEqual([terminalService, "[runScript]", "stderr:", "late"]);
+    });
+
+    it("should forward streamed output as whole lines and flush the unterminated rest on exit", async () => {
+      const forwarded: unknown[][] = [];
+      app.serviceOutput = (...args: unknown[]) => forwarded.push(args);
+
+      const result = await service.runScript("printf 'par'; sleep 0.1; printf 'tial\\nnext\\nre'; sleep 0.1; printf 'st'", {
+        timeoutSeconds: 5,
+        workingDirectory: testDir,
+        isolation: "none",
+        streamOutput: true,
+      });
+
+      expect(result.status).toBe("success");
+      expect(forwarded.filter(args => args[2] === "stdout:")).toEqual([
+        [terminalService, "[runScript]", "stdout:", "partial\nnext"],
+        [terminalService, "[runScript]", "stdout:", "rest"],
+      ]);
+    });
+
+    it("should keep the head and tail of oversized output and let the command finish", async () => {
+      service = new PosixTerminalProvider(
+        app,
+        terminalService,
+        PosixTerminalProviderOptionsSchema.parse({ maxCommandOutputBytes: 1000, commandOutputOverflow: "truncate" }),
+      );
+      const result = await service.runScript("seq 1 10000; echo summary; exit 4", { timeoutSeconds: 5, workingDirectory: testDir, isolation: "none" });
+
+      expect(result.status).toBe("badExitCode");
+      if (result.status === "badExitCode") {
+        expect(result.exitCode).toBe(4);
+        expect(result.stdout.startsWith("1\n2\n3\n")).toBe(true);
+        expect(result.stdout.endsWith("9999\n10000\nsummary\n")).toBe(true);
+        expect(Buffer.byteLength(result.stdout)).toBe(1000);
+        // `seq 1 10000` prints 48,894 bytes, plus 8 for "summary\n"
+        expect(result.droppedBytes).toBe(48_894 + 8 - 1000);
+        expect(result.output).toContain(`\n[... ${result.droppedBytes} bytes truncated ...]\n`);
+        expect(result.output.endsWith("summary")).toBe(true);
+      }
+    });
+
+    it("should stop a command whose output exceeds the limit in kill mode", async () => {
+      service = new PosixTerminalProvider(app, terminalService, PosixTerminalProviderOptionsSchema.parse({ maxCommandOutputBytes: 1000 }));
+      const result = await service.runScript("seq 1 1000000; echo unreachable", { timeoutSeconds: 5, workingDirectory: testDir, isolation: "none" });
+
+      expect(result.status).toBe("badExitCode");
+      if (result.status === "badExitCode") {
+        expect(result.stdout).not.toContain("unreachable");
+        expect(result.droppedBytes).toBe(0);
+      }
+    });
+
     it("should handle command execution with executeCommand", async () => {
       const result = await service.executeCommand("echo", ["test"], { timeoutSeconds: 5, workingDirectory: testDir, isolation: "none" });
       expect(result.status).toBe("success");
@@ -84,6 +84,19 @@ describe("PosixTerminalProvider Persistent Sessions", () => {
     });
   }
 
+  /** Follow newPosition until a read reports nothing more. */
+  function collectAll(sessionId: string, fromPosition: number) {
+    let output = "";
+    let evictedLength: number | undefined;
+    for (let position = fromPosition; ; ) {
+      const result = provider.collectOutput(sessionId, position, { minInterval: 0, settleInterval: 0, maxInterval: 1 });
+      evictedLength ??= result.evictedLength;
+      output += result.output;
+      position = result.newPosition;
+      if (!result.hasMore) return { output, evictedLength };
+    }
+  }
+
   it("should start and interact with a persistent session", async () => {
     const sessionId = await startSession();
 
@@ -182,6 +195,124 @@ describe("PosixTerminalProvider Persistent Sessions", () => {
     activeSessions.splice(activeSessions.indexOf(sessionId), 1);
   });
 
+  it("should wait for output to settle", async () => {
+    const sessionId = await startSession(false);
+
+    provider.sendInput(sessionId, "echo one; sleep 0.2; echo two");
+    const result = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0.5, maxInterval: 5 });
+
+    expect(result.reason).toBe("settled");
+    expect(result.output).toContain("one");
+    expect(result.output).toContain("two");
+  });
+
+  it("should settle with empty output once minInterval has passed on an idle session", async () => {
+    const sessionId = await startSession(false);
+    await Bun.sleep(200);
+
+    const startedAt = Date.now();
+    const result = await provider.waitForOutput(sessionId, 0, { minInterval: 0.3, settleInterval: 0.1, maxInterval: 10 });
+
+    expect(result).toMatchObject({ reason: "settled", output: "" });
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(290);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+
+  it("should return as soon as the output matches a pattern", async () => {
+    const sessionId = await startSession(false);
+
+    provider.sendInput(sessionId, "echo ready-42; sleep 5");
+    const startedAt = Date.now();
+    const result = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 5, pattern: /ready-\d+/ });
+
+    expect(result).toMatchObject({ reason: "match", match: "ready-42" });
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+
+  it("should wait for the process to exit, or give up at maxInterval", async () => {
+    const sessionId = await startSession(false);
+
+    const timedOut = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 0.2, untilExit: true });
+    expect(timedOut).toMatchObject({ reason: "timeout", isComplete: false });
+
+    provider.sendInput(sessionId, "echo bye; exit 3");
+    const exited = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 5, untilExit: true });
+    expect(exited).toMatchObject({ reason: "exit", isComplete: true, exitCode: 3 });
+    expect(exited.output).toContain("bye");
+  });
+
+  it("should discard the oldest output beyond the retention limit and report it", async () => {
+    provider = new PosixTerminalProvider(app, terminalService, PosixTerminalProviderOptionsSchema.parse({ sessionOutputRetention: 100 }));
+    const sessionId = await startSession(false);
+
+    provider.sendInput(sessionId, "seq 1 200; echo done-seq; exit 0");
+    const result = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 5, untilExit: true });
+
+    expect(result.output.length).toBeLessThanOrEqual(100);
+    expect(result.output).toContain("done-seq");
+    expect(result.evicted).toBe(true);
+    expect(result.evictedLength).toBe(result.newPosition - result.output.length);
+
+    const tail = provider.collectOutput(sessionId, result.newPosition - 9, { minInterval: 0, settleInterval: 0, maxInterval: 1 });
+    expect(tail).toMatchObject({ output: "done-seq\n", evicted: false, evictedLength: 0 });
+  });
+
+  it("should keep evicted output readable when spilling to disk", async () => {
+    provider = new PosixTerminalProvider(
+      app,
+      terminalService,
+      PosixTerminalProviderOptionsSchema.parse({ sessionOutputRetention: 100, spillSessionOutput: true }),
+    );
+    const sessionId = await startSession(false);
+
+    provider.sendInput(sessionId, "seq 1 200; exit 0");
+    const first = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 5, untilExit: true });
+    expect(first).toMatchObject({ evicted: false, hasMore: true });
+    expect(first.output.length).toBe(100);
+
+    const { output } = collectAll(sessionId, 0);
+    expect(output.split("\n").filter(Boolean)).toEqual(Array.from({ length: 200 }, (_, i) => String(i + 1)));
+  });
+
+  it("should overwrite the oldest spilled output beyond the spill limit", async () => {
+    provider = new PosixTerminalProvider(
+      app,
+      terminalService,
+      PosixTerminalProviderOptionsSchema.parse({ sessionOutputRetention: 100, spillSessionOutput: true, maxSpilledSessionOutput: 200 }),
+    );
+    const sessionId = await startSession(false);
+
+    provider.sendInput(sessionId, "seq 1 200; exit 0");
+    const { newPosition } = await provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 5, untilExit: true });
+    const end = provider.getSessionStatus(sessionId)!.outputLength;
+    expect(newPosition).toBe(end - 200);
+
+    const { output, evictedLength } = collectAll(sessionId, 0);
+    const expected = Array.from({ length: 200 }, (_, i) => `${i + 1}\n`).join("");
+    expect(evictedLength).toBe(end - 300);
+    expect(output).toBe(expected.slice(-300));
+  });
+
+  it("should hand spilled output to waiters before a terminated session removes its spill file", async () => {
+    provider = new PosixTerminalProvider(
+      app,
+      terminalService,
+      PosixTerminalProviderOptionsSchema.parse({ sessionOutputRetention: 100, spillSessionOutput: true }),
+    );
+    const sessionId = await startSession(false);
+    provider.sendInput(sessionId, "seq 1 200");
+    // `seq 1 200` prints 692 characters
+    while (provider.getSessionStatus(sessionId)!.outputLength < 692) await Bun.sleep(20);
+
+    const waiting = provider.waitForOutput(sessionId, 0, { minInterval: 0, settleInterval: 0, maxInterval: 5, untilExit: true });
+    await Bun.sleep(50);
+    provider.terminateSession(sessionId);
+    const result = await waiting;
+
+    expect(result).toMatchObject({ reason: "exit", evicted: false });
+    expect(result.output.startsWith("1\n2\n3\n")).toBe(true);
+  });
+
   it("should support the none isolation level", () => {
     expect(provider.supportedIsolationLevels).toContain("none");
   });
@@ -0,0 +1,37 @@
+import { isBinaryContent } from "./grep.ts";
+
+export type LineEnding = "\n" | "\r\n";
+
+const UTF8_BOM = "\uFEFF";
+
+/** The line ending used by most lines of the text, or null when it has no line breaks. */
+export function detectLineEnding(text: string): LineEnding | null {
+  let crlf = 0;
+  let lf = 0;
+  for (let index = text.indexOf("\n"); index !== -1; index = text.indexOf("\n", index + 1)) {
+    if (text[index - 1] === "\r") crlf++;
+    else lf++;
+  }
+  if (crlf === 0 && lf === 0) return null;
+  return crlf > lf ? "\r\n" : "\n";
+}
+
+export function convertLineEndings(text: string, lineEnding: LineEnding): string {
+  return text.replace(/\r?\n/g, lineEnding);
+}
+
+/**
+ * Rewrite text about to replace an existing file so it keeps that file's dominant line ending
+ * and its UTF-8 byte order mark. Binary originals are left alone.
+ */
+export function matchTextConventions(existing: Buffer, content: string): string {
+  if (isBinaryContent(existing)) return content;
+
+  const existingText = existing.toString("utf-8");
+  const lineEnding = detectLineEnding(existingText);
+  let result = lineEnding ? convertLineEndings(content, lineEnding) : content;
+  if (existingText.startsWith(UTF8_BOM) && !result.startsWith(UTF8_BOM)) {
+    result = UTF8_BOM + result;
+  }
+  return result;
+}